@@ -0,0 +1,370 @@
+// filename: backend-client.ts
+// Description: Typed client for Metacritic's backend product, score-summary and finder (search/listing) endpoints.
+// Notes:
+// - The finder API serves searchGamesByName and browseGames; the product endpoints serve getGameDetails.
+// - Responses are validated with the schemas below; a missing or mistyped field throws a ParseError naming its path.
+
+import { normalizeDate } from "./dates.ts";
+import { AbortedError, ParseError } from "./errors.ts";
+import { BACKEND_BASE_URL, DEFAULT_HEADERS, fetchText } from "./http.ts";
+import type { MediaType } from "./media.ts";
+import type { ResourceKind } from "./response-cache.ts";
+import type {
+  GameRatings,
+  ScoreDistribution,
+  ScrapeOptions,
+  SearchResult,
+} from "./metacritic-game-scraper.ts";
+import {
+  buildGameUrl,
+  normalizePlatform,
+  resolvePlatforms,
+} from "./platforms.ts";
+import {
+  array,
+  number,
+  object,
+  optional,
+  string,
+  type Infer,
+  type Schema,
+} from "./schema.ts";
+
+const ProductSchema = object({
+  data: object({
+    item: object({
+      title: string,
+      slug: string,
+      releaseDate: optional(string),
+      description: optional(string),
+      rating: optional(string),
+      genres: optional(array(object({ name: string }))),
+      platforms: optional(
+        array(
+          object({
+            name: string,
+            releaseDate: optional(string),
+          })
+        )
+      ),
+      production: optional(
+        object({
+          companies: optional(
+            array(object({ name: string, typeName: optional(string) }))
+          ),
+        })
+      ),
+      images: optional(
+        array(
+          object({
+            typeName: optional(string),
+            bucketPath: optional(string),
+          })
+        )
+      ),
+    }),
+  }),
+});
+
+const ScoreSummarySchema = object({
+  data: object({
+    item: object({
+      score: optional(number),
+      reviewCount: optional(number),
+      positiveCount: optional(number),
+      neutralCount: optional(number),
+      negativeCount: optional(number),
+    }),
+  }),
+});
+
+// Search and browse listing items; games, movies, shows and people share the shape
+const FinderItemSchema = object({
+  type: optional(string),
+  title: optional(string),
+  name: optional(string),
+  slug: optional(string),
+  premiereYear: optional(number),
+  releaseDate: optional(string),
+  criticScoreSummary: optional(object({ score: optional(number) })),
+  userScoreSummary: optional(object({ score: optional(number) })),
+  platforms: optional(array(object({ name: optional(string) }))),
+});
+
+const FinderResponseSchema = object({
+  data: object({
+    totalResults: optional(number),
+    items: array(FinderItemSchema),
+  }),
+});
+
+// The finder API's mcoTypeId for each type
+export const MCO_TYPE_IDS: Record<MediaType, number> = {
+  game: 13,
+  movie: 2,
+  tv: 1,
+  person: 3,
+};
+
+// Finder item `type` for each media type
+const FINDER_ITEM_TYPES: Record<MediaType, string> = {
+  game: "game-title",
+  movie: "movie",
+  tv: "show",
+  person: "person",
+};
+
+export type ProductDetails = Infer<typeof ProductSchema>["data"]["item"];
+export type ScoreSummary = Infer<typeof ScoreSummarySchema>["data"]["item"];
+export type FinderItem = Infer<typeof FinderItemSchema>;
+export type FinderListing = Infer<typeof FinderResponseSchema>["data"];
+
+async function fetchJson<T>(
+  url: string,
+  schema: Schema<T>,
+  opts: ScrapeOptions,
+  kind: ResourceKind = "game"
+): Promise<T> {
+  const text = await fetchText(url, opts, kind, {
+    ...DEFAULT_HEADERS,
+    Accept: "application/json",
+  });
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new ParseError("Backend returned invalid JSON", url);
+  }
+  try {
+    return schema.parse(json);
+  } catch (e) {
+    // Re-throw with the URL so callers know which endpoint drifted
+    if (e instanceof ParseError) {
+      throw new ParseError(`${e.message} (${url})`, url, e.field);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Product details: title, platforms, credits, genres, rating, description, images.
+ */
+export async function fetchProductDetails(
+  slug: string,
+  opts: ScrapeOptions = {}
+): Promise<ProductDetails> {
+  const url = `${BACKEND_BASE_URL}/games/metacritic/${encodeURIComponent(
+    slug
+  )}/web?componentName=product&componentDisplayName=Product&componentType=Product`;
+  const res = await fetchJson(url, ProductSchema, opts);
+  return res.data.item;
+}
+
+/**
+ * Critic (metascore, 0–100) or user (0–10) score summary, optionally for one platform.
+ */
+export async function fetchScoreSummary(
+  slug: string,
+  kind: "critic" | "user",
+  platform?: string,
+  opts: ScrapeOptions = {}
+): Promise<ScoreSummary> {
+  const component =
+    kind === "critic"
+      ? "componentName=critic-score-summary&componentDisplayName=Critic+Score+Summary&componentType=MetaScoreSummary"
+      : "componentName=user-score-summary&componentDisplayName=User+Score+Summary&componentType=ScoreSummary";
+  const platformPath = platform
+    ? `/platform/${encodeURIComponent(platform)}`
+    : "";
+  const url = `${BACKEND_BASE_URL}/reviews/metacritic/${kind}/games/${encodeURIComponent(
+    slug
+  )}${platformPath}/stats/web?${component}`;
+  const res = await fetchJson(url, ScoreSummarySchema, opts);
+  return res.data.item;
+}
+
+/**
+ * One finder API search or listing page, validated like the product endpoints.
+ */
+export async function fetchFinder(
+  url: string,
+  opts: ScrapeOptions = {}
+): Promise<FinderListing> {
+  const res = await fetchJson(url, FinderResponseSchema, opts, "search");
+  return res.data;
+}
+
+/**
+ * Finder search hits of one media type, or undefined when the API fails or has none.
+ * Either way a `search-fallback` diagnostic is emitted so the caller can try the
+ * HTML search page; a cancelled search rethrows instead.
+ */
+export async function searchFinder(
+  query: string,
+  mediaType: MediaType,
+  page: { searchText?: string; offset: number; limit: number },
+  opts: ScrapeOptions = {}
+): Promise<FinderItem[] | undefined> {
+  const apiUrl = `${BACKEND_BASE_URL}/finder/metacritic/search/${encodeURIComponent(
+    page.searchText ?? query
+  )}/web?offset=${page.offset}&limit=${page.limit}&mcoTypeId=${
+    MCO_TYPE_IDS[mediaType]
+  }&sortBy=&sortDirection=DESC&componentName=search&componentDisplayName=Search&componentType=SearchResults`;
+
+  let fallbackReason: string;
+  let fallbackError: unknown;
+  try {
+    // Only successful responses are cached; errors throw and fall through to HTML
+    const { items } = await fetchFinder(apiUrl, opts);
+    const hits = items.filter(
+      (item) => item.type === FINDER_ITEM_TYPES[mediaType] && item.slug
+    );
+    if (hits.length > 0) return hits;
+    fallbackReason = `Finder API returned no ${mediaType} results`;
+  } catch (e) {
+    // A cancelled search is over, not a reason to try the HTML page
+    if (e instanceof AbortedError) throw e;
+    fallbackError = e;
+    fallbackReason = e instanceof Error ? e.message : String(e);
+  }
+
+  opts.onDiagnostic?.({
+    type: "search-fallback",
+    query,
+    url: apiUrl,
+    reason: fallbackReason,
+    error: fallbackError,
+  });
+  return undefined;
+}
+
+/**
+ * Release year from the premiere year, or the year of an ISO release date.
+ */
+export function finderReleaseYear(item: FinderItem): number | undefined {
+  if (item.premiereYear !== undefined) return item.premiereYear;
+  const yearMatch = item.releaseDate?.match(/^(\d{4})/);
+  return yearMatch?.[1] ? Number(yearMatch[1]) : undefined;
+}
+
+/**
+ * Map a finder API item (from search or browse) to the query-independent SearchResult fields.
+ */
+export function parseFinderItem(
+  item: FinderItem
+): Omit<SearchResult, "matchScore" | "source"> {
+  const slug = item.slug || "";
+
+  // Normalize all platforms, removing duplicates
+  const { platforms, unknown } = resolvePlatforms(
+    (item.platforms ?? []).map((p) => p.name)
+  );
+
+  return {
+    name: item.title || item.name || "",
+    platforms,
+    unknownPlatforms: unknown.length > 0 ? unknown : undefined,
+    slug,
+    // Use first platform for URL construction, or slug-only if no platforms
+    url: buildGameUrl(slug, platforms[0]),
+    metascore: item.criticScoreSummary?.score,
+    userscore: item.userScoreSummary?.score,
+    releaseYear: finderReleaseYear(item),
+    releaseDate: item.releaseDate || undefined,
+    type: item.type,
+  };
+}
+
+function toDistribution(
+  summary: Partial<ScoreSummary>
+): ScoreDistribution | undefined {
+  if (
+    summary.positiveCount === undefined &&
+    summary.neutralCount === undefined &&
+    summary.negativeCount === undefined
+  ) {
+    return undefined;
+  }
+  return {
+    positive: summary.positiveCount ?? 0,
+    mixed: summary.neutralCount ?? 0,
+    negative: summary.negativeCount ?? 0,
+  };
+}
+
+// A failed score summary is a gap for the caller to fill, unless the call was cancelled
+function settledSummary(
+  part: PromiseSettledResult<ScoreSummary>
+): Partial<ScoreSummary> {
+  if (part.status === "fulfilled") return part.value;
+  if (part.reason instanceof AbortedError) throw part.reason;
+  return {};
+}
+
+function companies(
+  product: ProductDetails,
+  type: string
+): string[] | undefined {
+  const names = (product.production?.companies ?? [])
+    .filter((c) => c.typeName?.toLowerCase() === type)
+    .map((c) => c.name);
+  return names.length > 0 ? names : undefined;
+}
+
+/**
+ * Fetch a game from the backend and map it into GameRatings.
+ * Scores are for `platform` when given, otherwise across platforms.
+ * The product details are required; a score summary that fails leaves its fields empty.
+ */
+export async function fetchGameFromApi(
+  slug: string,
+  platform?: string,
+  opts: ScrapeOptions = {}
+): Promise<GameRatings> {
+  const [productPart, criticPart, userPart] = await Promise.allSettled([
+    fetchProductDetails(slug, opts),
+    fetchScoreSummary(slug, "critic", platform, opts),
+    fetchScoreSummary(slug, "user", platform, opts),
+  ]);
+  if (productPart.status === "rejected") throw productPart.reason;
+  const product = productPart.value;
+  const critic = settledSummary(criticPart);
+  const user = settledSummary(userPart);
+
+  const { platforms, unknown } = resolvePlatforms(
+    (product.platforms ?? []).map((p) => p.name)
+  );
+  const platformEntry = platform
+    ? product.platforms?.find((p) => normalizePlatform(p.name) === platform)
+    : undefined;
+
+  const cover = product.images?.find(
+    (img) => img.typeName === "cardImage" && img.bucketPath
+  );
+
+  return {
+    name: product.title,
+    platforms,
+    unknownPlatforms: unknown.length > 0 ? unknown : undefined,
+    slug: product.slug,
+    url: buildGameUrl(product.slug, platform ?? platforms[0]),
+    metascore: critic.score,
+    userscore: user.score,
+    criticReviewsCount: critic.reviewCount,
+    userRatingsCount: user.reviewCount,
+    releaseDate: platformEntry?.releaseDate ?? product.releaseDate,
+    releaseDateNormalized: normalizeDate(
+      platformEntry?.releaseDate ?? product.releaseDate
+    ),
+    developers: companies(product, "developer"),
+    publishers: companies(product, "publisher"),
+    genres: product.genres?.map((g) => g.name),
+    contentRating: product.rating?.replace(/^Rated\s+/i, "") || undefined,
+    summary: product.description || undefined,
+    coverImageUrl: cover?.bucketPath
+      ? `https://www.metacritic.com/a/img/catalog${cover.bucketPath}`
+      : undefined,
+    criticDistribution: toDistribution(critic),
+    userDistribution: toDistribution(user),
+  };
+}
@@ -0,0 +1,248 @@
+// filename: batch.ts
+// Description: Batch lookups over a list of titles with resumable NDJSON/CSV output.
+// Usage:
+//   bun metacritic-game-scraper.ts batch titles.txt --format=csv --out=results.csv --checkpoint=titles.checkpoint
+//   cat titles.txt | bun metacritic-game-scraper.ts batch - --format=ndjson
+// Input: one title per line, optionally followed by a tab and a platform slug,
+// or one JSON object per line ({"title": "...", "platform": "..."}). Blank lines and # comments are skipped.
+
+import { appendFile, readFile } from "node:fs/promises";
+import pLimit from "p-limit";
+import {
+  getGameRatingsAndReviewsByName,
+  type GameRatings,
+  type ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+import { csvCell } from "./output.ts";
+import { buildGameUrl, normalizePlatform } from "./platforms.ts";
+
+export interface BatchEntry {
+  line: number; // 1-based line in the input
+  title: string;
+  platform?: string;
+}
+
+export type BatchStatus = "ok" | "not_found" | "error";
+
+export interface BatchRow {
+  line: number;
+  title: string;
+  platform?: string;
+  status: BatchStatus;
+  result?: GameRatings;
+  error?: string;
+}
+
+export type BatchFormat = "ndjson" | "csv";
+
+export interface BatchOptions {
+  format?: BatchFormat; // default "ndjson"
+  write: (chunk: string) => void | Promise<void>; // Receives each formatted line (and the CSV header)
+  writeHeader?: boolean; // default true - set false when appending to an existing CSV
+  checkpointPath?: string; // Completed entries are recorded here and skipped on the next run
+  scrape?: ScrapeOptions;
+}
+
+export interface BatchSummary {
+  total: number;
+  skipped: number; // Already completed according to the checkpoint
+  ok: number;
+  notFound: number;
+  errors: number;
+}
+
+export const CSV_COLUMNS = [
+  "line",
+  "title",
+  "platform",
+  "status",
+  "name",
+  "slug",
+  "url",
+  "metascore",
+  "userscore",
+  "criticReviewsCount",
+  "userRatingsCount",
+  "releaseDate",
+  "matchScore",
+  "ambiguous",
+  "error",
+] as const;
+
+/**
+ * Parse batch input text into entries.
+ */
+export function parseBatchInput(text: string): BatchEntry[] {
+  const entries: BatchEntry[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const trimmed = raw.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    if (trimmed.startsWith("{")) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (typeof parsed.title === "string" && parsed.title.trim()) {
+          entries.push({
+            line: i + 1,
+            title: parsed.title.trim(),
+            platform:
+              typeof parsed.platform === "string" && parsed.platform.trim()
+                ? parsed.platform.trim()
+                : undefined,
+          });
+          return;
+        }
+      } catch {
+        // Not JSON after all; treat the line as a title
+      }
+    }
+
+    const [title = "", platform] = trimmed.split("\t").map((p) => p.trim());
+    entries.push({ line: i + 1, title, platform: platform || undefined });
+  });
+  return entries;
+}
+
+/**
+ * Identity of an entry in the checkpoint file.
+ */
+export function entryKey(entry: BatchEntry): string {
+  return JSON.stringify([entry.title.toLowerCase(), entry.platform ?? null]);
+}
+
+async function readCheckpoint(path: string): Promise<Set<string>> {
+  try {
+    const text = await readFile(path, "utf-8");
+    return new Set(text.split("\n").filter((l) => l.trim()));
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Format a row as one NDJSON or CSV line (without the trailing newline).
+ */
+export function formatRow(row: BatchRow, format: BatchFormat): string {
+  if (format === "ndjson") return JSON.stringify(row);
+
+  const r = row.result;
+  const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+    line: row.line,
+    title: row.title,
+    platform: row.platform,
+    status: row.status,
+    name: r?.name,
+    slug: r?.slug,
+    url: r?.url,
+    metascore: r?.metascore,
+    userscore: r?.userscore,
+    criticReviewsCount: r?.criticReviewsCount,
+    userRatingsCount: r?.userRatingsCount,
+    releaseDate: r?.releaseDate,
+    matchScore: r?.matchScore,
+    ambiguous: r?.ambiguous,
+    error: row.error,
+  };
+  return CSV_COLUMNS.map((c) => csvCell(values[c])).join(",");
+}
+
+/**
+ * Look up one entry. A platform narrows the result to that platform's page.
+ */
+async function lookupEntry(
+  entry: BatchEntry,
+  opts: ScrapeOptions
+): Promise<BatchRow> {
+  const base = {
+    line: entry.line,
+    title: entry.title,
+    platform: entry.platform,
+  };
+  try {
+    // The entry's platform doubles as a search hint
+    const [result] = await getGameRatingsAndReviewsByName(entry.title, {
+      ...opts,
+      platform: entry.platform ?? opts.platform,
+    });
+    if (!result) return { ...base, status: "not_found" };
+
+    if (entry.platform) {
+      // Accept any spelling the platform registry knows, e.g. "PS5" or "playstation-5"
+      const platform = normalizePlatform(entry.platform);
+      if (!platform || !result.platforms.includes(platform)) {
+        return {
+          ...base,
+          status: "not_found",
+          error: platform
+            ? `Not available on ${entry.platform}`
+            : `Unknown platform ${entry.platform}`,
+        };
+      }
+      result.url = buildGameUrl(result.slug, platform);
+    }
+    return { ...base, status: "ok", result };
+  } catch (err) {
+    return {
+      ...base,
+      status: "error",
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Run every entry through getGameRatingsAndReviewsByName under the shared rate limits,
+ * streaming one formatted line per entry as it completes.
+ * Successful and not-found entries go to the checkpoint; errored ones are retried next run.
+ */
+export async function runBatch(
+  entries: BatchEntry[],
+  options: BatchOptions
+): Promise<BatchSummary> {
+  const format = options.format ?? "ndjson";
+  const scrape = options.scrape ?? {};
+  const done = options.checkpointPath
+    ? await readCheckpoint(options.checkpointPath)
+    : new Set<string>();
+
+  const summary: BatchSummary = {
+    total: entries.length,
+    skipped: 0,
+    ok: 0,
+    notFound: 0,
+    errors: 0,
+  };
+
+  if (format === "csv" && options.writeHeader !== false) {
+    await options.write(CSV_COLUMNS.join(",") + "\n");
+  }
+
+  // Titles run in parallel up to the configured concurrency; the scheduler still
+  // spaces the underlying requests
+  const limit = pLimit(Math.max(1, scrape.concurrency ?? 2));
+  await Promise.all(
+    entries.map((entry) =>
+      limit(async () => {
+        const key = entryKey(entry);
+        if (done.has(key)) {
+          summary.skipped++;
+          return;
+        }
+
+        const row = await lookupEntry(entry, scrape);
+        await options.write(formatRow(row, format) + "\n");
+
+        if (row.status === "ok") summary.ok++;
+        else if (row.status === "not_found") summary.notFound++;
+        else summary.errors++;
+
+        if (row.status !== "error" && options.checkpointPath) {
+          done.add(key);
+          await appendFile(options.checkpointPath, key + "\n");
+        }
+      })
+    )
+  );
+
+  return summary;
+}
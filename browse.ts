@@ -0,0 +1,240 @@
+// filename: browse.ts
+// Description: Browse Metacritic's game listings (best of a year, new releases, filtered charts) without a title to search for.
+// Usage:
+//   bun metacritic-game-scraper.ts browse --platform=switch --year=2025 --sort=metascore --limit=100
+//   bun metacritic-game-scraper.ts browse --genre=rpg --from-year=2020 --to-year=2024 --page=2
+// Notes:
+// - Uses the finder API's listing endpoint first and falls back to the /browse/game/ HTML page, like search does.
+// - Listings are paged 24 at a time, matching the site.
+
+import { load as loadHTML, type CheerioAPI } from "cheerio";
+import { fetchFinder, parseFinderItem } from "./backend-client.ts";
+import { AbortedError } from "./errors.ts";
+import { BACKEND_BASE_URL, fetchText } from "./http.ts";
+import type { ScrapeOptions, SearchResult } from "./metacritic-game-scraper.ts";
+import { buildGameUrl, normalizePlatform, type Platform } from "./platforms.ts";
+
+export const BROWSE_PAGE_SIZE = 24;
+
+export type BrowseSort = "metascore" | "userscore" | "release-date";
+
+export type BrowseReleaseType = "coming-soon" | "new-release";
+
+export interface BrowseFilters {
+  platform?: Platform; // Platform slug, e.g. "switch"
+  yearFrom?: number; // Earliest release year, inclusive
+  yearTo?: number; // Latest release year, inclusive
+  genre?: string; // Genre slug, e.g. "action" or "rpg"
+  releaseType?: BrowseReleaseType; // Only unreleased or recently released games; default all
+  sort?: BrowseSort; // default "metascore" - always highest/newest first
+  page?: number; // default 1
+}
+
+export interface BrowseResult extends Omit<SearchResult, "matchScore"> {
+  rank: number; // 1-based position in the whole listing
+}
+
+export interface BrowsePage {
+  page: number;
+  results: BrowseResult[];
+  totalResults?: number; // When the listing reports it
+  hasMore: boolean;
+}
+
+const API_SORT: Record<BrowseSort, string> = {
+  metascore: "-metaScore",
+  userscore: "-userScore",
+  "release-date": "-releaseDate",
+};
+
+// Sort segment of the /browse/game/all/all/all-time/<sort>/ path
+const HTML_SORT: Record<BrowseSort, string> = {
+  metascore: "metascore",
+  userscore: "userscore",
+  "release-date": "new",
+};
+
+function browseApiUrl(filters: BrowseFilters, page: number): string {
+  const params = new URLSearchParams({
+    sortBy: API_SORT[filters.sort ?? "metascore"],
+    productType: "games",
+    page: String(page),
+    offset: String((page - 1) * BROWSE_PAGE_SIZE),
+    limit: String(BROWSE_PAGE_SIZE),
+  });
+  if (filters.yearFrom) params.set("releaseYearMin", String(filters.yearFrom));
+  if (filters.yearTo) params.set("releaseYearMax", String(filters.yearTo));
+  if (filters.platform) params.set("platforms", filters.platform);
+  if (filters.genre) params.set("genres", filters.genre.toLowerCase());
+  if (filters.releaseType) params.set("releaseType", filters.releaseType);
+  return `${BACKEND_BASE_URL}/finder/metacritic/web?${params}`;
+}
+
+function browseHtmlUrl(filters: BrowseFilters, page: number): string {
+  const params = new URLSearchParams();
+  if (filters.yearFrom) params.set("releaseYearMin", String(filters.yearFrom));
+  if (filters.yearTo) params.set("releaseYearMax", String(filters.yearTo));
+  if (filters.platform) params.set("platform", filters.platform);
+  if (filters.genre) params.set("genre", filters.genre.toLowerCase());
+  if (filters.releaseType) params.set("releaseType", filters.releaseType);
+  if (page > 1) params.set("page", String(page));
+  const query = params.toString();
+  return `https://www.metacritic.com/browse/game/all/all/all-time/${
+    HTML_SORT[filters.sort ?? "metascore"]
+  }/${query ? `?${query}` : ""}`;
+}
+
+function parseBrowseHtml(
+  $: CheerioAPI,
+  filters: BrowseFilters,
+  offset: number
+): BrowseResult[] {
+  const results: BrowseResult[] = [];
+  const seen = new Set<string>();
+
+  $('[data-testid="filter-results"], .c-finderProductCard, .clamp-summary-wrap')
+    .toArray()
+    .forEach((el) => {
+      const $card = $(el);
+      const href = $card.is("a[href]")
+        ? $card.attr("href")
+        : $card
+            .find('a[href^="/game/"], a[href*="metacritic.com/game/"]')
+            .first()
+            .attr("href");
+      const m = href?.match(/\/game\/(?:([^/]+)\/)?([^/?#]+)\/?(?:[?#].*)?$/);
+      const slug = m?.[2];
+      if (!slug || seen.has(slug)) return;
+      seen.add(slug);
+
+      // Titles are prefixed with their rank, e.g. "1. The Legend of Zelda"
+      const rawTitle =
+        $card.find('[data-testid="product-title"]').first().text().trim() ||
+        $card.find("h3").first().text().trim();
+      const name = rawTitle.replace(/^\d+\.\s*/, "") || slug;
+
+      const metascoreText =
+        $card.find('[data-testid="product-metascore"]').first().text().trim() ||
+        $card.find(".c-siteReviewScore").first().text().trim() ||
+        $card.find(".metascore_w").first().text().trim();
+      const metascore = /^\d+$/.test(metascoreText)
+        ? Number(metascoreText)
+        : undefined;
+
+      const dateText =
+        $card
+          .find('[data-testid="product-release-date"]')
+          .first()
+          .text()
+          .trim() ||
+        $card.find(".c-finderProductCard_meta span").first().text().trim() ||
+        $card.find(".clamp-details span").last().text().trim();
+      const yearMatch = dateText.match(/\b(19\d\d|20\d\d)\b/);
+
+      const platform = normalizePlatform(m?.[1]) ?? filters.platform;
+      results.push({
+        rank: offset + results.length + 1,
+        name,
+        platforms: platform ? [platform] : [],
+        slug,
+        url: buildGameUrl(slug, platform),
+        metascore,
+        releaseYear: yearMatch?.[1] ? Number(yearMatch[1]) : undefined,
+        releaseDate: dateText || undefined,
+        type: "game-title",
+        source: "html",
+      });
+    });
+
+  return results;
+}
+
+/**
+ * Fetch one page of a game listing.
+ */
+export async function browseGames(
+  filters: BrowseFilters = {},
+  opts: ScrapeOptions = {}
+): Promise<BrowsePage> {
+  const page = Math.max(1, filters.page ?? 1);
+  const offset = (page - 1) * BROWSE_PAGE_SIZE;
+  const apiUrl = browseApiUrl(filters, page);
+
+  let fallbackReason: string;
+  let fallbackError: unknown;
+
+  try {
+    const { items, totalResults } = await fetchFinder(apiUrl, opts);
+    const results: BrowseResult[] = items
+      .filter((item) => item.slug)
+      .map((item, i) => ({
+        ...parseFinderItem(item),
+        rank: offset + i + 1,
+        source: "api",
+      }));
+
+    // An empty first page is suspicious enough to check the HTML listing
+    if (results.length > 0 || page > 1) {
+      return {
+        page,
+        results,
+        totalResults,
+        hasMore:
+          totalResults !== undefined
+            ? offset + items.length < totalResults
+            : items.length >= BROWSE_PAGE_SIZE,
+      };
+    }
+    fallbackReason = "Finder API returned no games";
+  } catch (e) {
+    // A cancelled listing is over, not a reason to try the HTML page
+    if (e instanceof AbortedError) throw e;
+    fallbackError = e;
+    fallbackReason = e instanceof Error ? e.message : String(e);
+  }
+
+  opts.onDiagnostic?.({
+    type: "browse-fallback",
+    url: apiUrl,
+    reason: fallbackReason,
+    error: fallbackError,
+  });
+
+  const html = await fetchText(browseHtmlUrl(filters, page), opts, "search");
+  const $ = loadHTML(html);
+  const results = parseBrowseHtml($, filters, offset);
+  const nextLink = $(
+    'a[rel="next"], .c-navigationPagination_item--next:not(.c-navigationPagination_item--disabled)'
+  );
+  return {
+    page,
+    results,
+    hasMore:
+      nextLink.length > 0 ||
+      ($(".c-navigationPagination").length === 0 &&
+        results.length >= BROWSE_PAGE_SIZE),
+  };
+}
+
+/**
+ * Walk a listing page by page from `filters.page`, stopping after `maxResults`
+ * or when the listing runs out.
+ */
+export async function* iterateBrowse(
+  filters: BrowseFilters = {},
+  opts: ScrapeOptions = {},
+  maxResults = BROWSE_PAGE_SIZE
+): AsyncGenerator<BrowseResult> {
+  let yielded = 0;
+  for (let page = Math.max(1, filters.page ?? 1); ; page++) {
+    const res = await browseGames({ ...filters, page }, opts);
+    for (const result of res.results) {
+      if (yielded >= maxResults) return;
+      yield result;
+      yielded++;
+    }
+    if (!res.hasMore || res.results.length === 0 || yielded >= maxResults) {
+      return;
+    }
+  }
+}
@@ -0,0 +1,1317 @@
+// filename: cli.ts
+// Description: Command-line interface: subcommands, flag parsing, per-command help, output formats and exit codes.
+// Usage:
+//   bun metacritic-game-scraper.ts search "Doom" --platform pc --format table
+//   bun metacritic-game-scraper.ts game https://www.metacritic.com/game/pc/doom/ --reviews
+//   bun metacritic-game-scraper.ts reviews doom --type critic --min-score=80 --format=csv
+//   bun metacritic-game-scraper.ts <command> --help
+// Notes:
+// - Flags take their value as `--flag value` or `--flag=value`; unknown flags are a usage error.
+// - A title without a command (`bun metacritic-game-scraper.ts "Fortnite"`) is shorthand for `find`.
+// - runCli never calls process.exit; it returns the exit code, so it can be tested in-process.
+// - Logs are JSON lines on stderr (--log-level); every command but serve ends with a "summary" line at info, the default level.
+
+import { stat, appendFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import ms from "ms";
+import {
+  ForbiddenError,
+  NotFoundError,
+  ParseError,
+  RateLimitedError,
+  RobotsDisallowedError,
+  TimeoutError,
+  UpstreamError,
+} from "./errors.ts";
+import {
+  getGameDetails,
+  getGameRatingsAndReviewsByName,
+  getReviews,
+  iterateReviews,
+  scrapePlatformScores,
+  searchGamesByName,
+  type GameRatings,
+  type ReleaseYearHint,
+  type Review,
+  type ReviewFilters,
+  type ReviewSentiment,
+  type ScrapeOptions,
+  type SearchResult,
+} from "./metacritic-game-scraper.ts";
+import { createJsonLogger, LOG_LEVELS, type Logger } from "./logger.ts";
+import type { MediaDetails } from "./media.ts";
+import { instrument, MetricsCollector } from "./metrics.ts";
+import {
+  formatOutput,
+  OUTPUT_FORMATS,
+  type Column,
+  type OutputFormat,
+} from "./output.ts";
+import { buildGameUrl, normalizePlatform } from "./platforms.ts";
+import {
+  CacheMissError,
+  FileCacheStore,
+  type CacheOptions,
+} from "./response-cache.ts";
+import {
+  RecordingTransport,
+  ReplayTransport,
+  type Transport,
+} from "./transport.ts";
+
+export const PROGRAM = "bun metacritic-game-scraper.ts";
+
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1, // Anything unexpected, or some rows of a batch/comparison failed
+  usage: 2, // Unknown command or flag, missing or invalid argument
+  notFound: 3, // No search results, or the page doesn't exist (HTTP 404)
+  unavailable: 4, // Rate limited, blocked (HTTP 403 or robots.txt), timed out, upstream failure or offline cache miss
+  layout: 5, // A page didn't parse, or doctor found required fields missing
+} as const;
+
+export interface CliIO {
+  stdout: (chunk: string) => void;
+  stderr: (chunk: string) => void;
+  readStdin: () => Promise<string>;
+}
+
+const processIO: CliIO = {
+  stdout: (chunk) => void process.stdout.write(chunk),
+  stderr: (chunk) => void process.stderr.write(chunk),
+  readStdin: () => Bun.stdin.text(),
+};
+
+/**
+ * A bad command line. Reported with the command's usage line and exit code 2.
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+interface OptionSpec {
+  type: "string" | "boolean";
+  short?: string;
+  value?: string; // Placeholder shown in help, e.g. "N"
+  description: string;
+}
+
+type OptionSpecs = Record<string, OptionSpec>;
+type Flags = Record<string, string | boolean | undefined>;
+
+interface CommandContext {
+  args: string[]; // Positional arguments after the command name
+  flags: Flags;
+  scrape: ScrapeOptions;
+  io: CliIO;
+  print: (text: string) => void; // Writes a line to stdout
+  metrics: MetricsCollector; // Every fetch the command made, for its summary
+}
+
+interface Command {
+  usage: string; // Arguments, e.g. "<query>"
+  summary: string;
+  options: OptionSpecs;
+  run: (ctx: CommandContext) => Promise<number | void>;
+}
+
+const REQUEST_OPTIONS: OptionSpecs = {
+  timeout: {
+    type: "string",
+    value: "DURATION",
+    description: "Per-request timeout, e.g. 10s (default 15s)",
+  },
+  delay: {
+    type: "string",
+    value: "DURATION",
+    description: "Pause between requests to the same host (default 1s)",
+  },
+  concurrency: {
+    type: "string",
+    value: "N",
+    description: "Parallel requests (default 2)",
+  },
+  "cache-dir": {
+    type: "string",
+    value: "DIR",
+    description: "Cache responses on disk (default dir .cache/metacritic)",
+  },
+  offline: {
+    type: "boolean",
+    description: "Serve only cached responses; a cache miss fails",
+  },
+  "stale-while-revalidate": {
+    type: "boolean",
+    description: "Answer from stale cache entries and refresh them",
+  },
+  record: {
+    type: "string",
+    value: "DIR",
+    description: "Save every response as a replay fixture",
+  },
+  replay: {
+    type: "string",
+    value: "DIR",
+    description: "Answer requests from recorded fixtures only",
+  },
+  "user-agent": {
+    type: "string",
+    value: "AGENT",
+    description: "User-Agent to send (default metacritic-scraper/1.0)",
+  },
+  contact: {
+    type: "string",
+    value: "EMAIL|URL",
+    description: "How site operators can reach you; added to the User-Agent",
+  },
+  "ignore-robots": {
+    type: "boolean",
+    description: "Don't check robots.txt (it's skipped with --replay)",
+  },
+  "log-level": {
+    type: "string",
+    value: LOG_LEVELS.join("|"),
+    description:
+      "JSON logs on stderr: debug adds every request, warn drops the run summary (default info)",
+  },
+  "debug-dump": {
+    type: "string",
+    value: "DIR",
+    description:
+      "Save every response as a fixture; --replay DIR reproduces the run",
+  },
+};
+
+const HELP_OPTION: OptionSpecs = {
+  help: { type: "boolean", short: "h", description: "Show this help" },
+};
+
+const FORMAT_OPTION: OptionSpecs = {
+  format: {
+    type: "string",
+    value: OUTPUT_FORMATS.join("|"),
+    description: "Output format (default json)",
+  },
+};
+
+const HINT_OPTIONS: OptionSpecs = {
+  platform: {
+    type: "string",
+    value: "SLUG",
+    description: "Prefer games on this platform, e.g. pc or ps5",
+  },
+  year: {
+    type: "string",
+    value: "YEAR",
+    description: "Prefer games released this year",
+  },
+  "from-year": {
+    type: "string",
+    value: "YEAR",
+    description: "Prefer games released in or after this year",
+  },
+  "to-year": {
+    type: "string",
+    value: "YEAR",
+    description: "Prefer games released in or before this year",
+  },
+  exact: { type: "boolean", description: "Only accept exact title matches" },
+  limit: {
+    type: "string",
+    value: "N",
+    description: "Candidates to return (default 5)",
+  },
+  offset: {
+    type: "string",
+    value: "N",
+    description: "Skip this many candidates",
+  },
+};
+
+const DETAIL_OPTIONS: OptionSpecs = {
+  reviews: { type: "boolean", description: "Include critic and user reviews" },
+  "platform-scores": {
+    type: "boolean",
+    description: "Include each platform's scores",
+  },
+};
+
+const SEARCH_COLUMNS: Column<SearchResult>[] = [
+  { header: "name", value: (r) => r.name },
+  { header: "platforms", value: (r) => r.platforms.join(" ") },
+  { header: "releaseYear", value: (r) => r.releaseYear },
+  { header: "metascore", value: (r) => r.metascore },
+  { header: "matchScore", value: (r) => r.matchScore },
+  { header: "url", value: (r) => r.url },
+];
+
+const GAME_COLUMNS: Column<GameRatings>[] = [
+  { header: "name", value: (g) => g.name },
+  { header: "platforms", value: (g) => g.platforms.join(" ") },
+  { header: "metascore", value: (g) => g.metascore },
+  { header: "userscore", value: (g) => g.userscore },
+  { header: "criticReviewsCount", value: (g) => g.criticReviewsCount },
+  { header: "userRatingsCount", value: (g) => g.userRatingsCount },
+  {
+    header: "releaseDate",
+    value: (g) => g.releaseDateNormalized?.iso ?? g.releaseDate,
+  },
+  { header: "url", value: (g) => g.url },
+];
+
+// People have no scores of their own, so those cells stay empty
+const MEDIA_COLUMNS: Column<MediaDetails>[] = [
+  { header: "name", value: (d) => d.name },
+  { header: "mediaType", value: (d) => d.mediaType },
+  {
+    header: "metascore",
+    value: (d) => ("metascore" in d ? d.metascore : undefined),
+  },
+  {
+    header: "userscore",
+    value: (d) => ("userscore" in d ? d.userscore : undefined),
+  },
+  {
+    header: "criticReviewsCount",
+    value: (d) =>
+      "criticReviewsCount" in d ? d.criticReviewsCount : undefined,
+  },
+  {
+    header: "userRatingsCount",
+    value: (d) => ("userRatingsCount" in d ? d.userRatingsCount : undefined),
+  },
+  {
+    header: "releaseDate",
+    value: (d) =>
+      "releaseDate" in d
+        ? d.releaseDateNormalized?.iso ?? d.releaseDate
+        : undefined,
+  },
+  { header: "url", value: (d) => d.url },
+];
+
+const REVIEW_COLUMNS: Column<Review>[] = [
+  { header: "type", value: (r) => r.type },
+  { header: "source", value: (r) => r.source },
+  { header: "score", value: (r) => r.score },
+  { header: "date", value: (r) => r.date },
+  { header: "quote", value: (r) => r.quote },
+  { header: "url", value: (r) => r.url },
+];
+
+function stringFlag(flags: Flags, name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+function numberFlag(flags: Flags, name: string): number | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (Number.isNaN(n)) {
+    throw new UsageError(`--${name} expects a number, got "${value}"`);
+  }
+  return n;
+}
+
+function positiveIntegerFlag(flags: Flags, name: string): number | undefined {
+  const n = numberFlag(flags, name);
+  if (n !== undefined && (!Number.isInteger(n) || n < 1)) {
+    throw new UsageError(
+      `--${name} expects a whole number of at least 1, got "${flags[name]}"`
+    );
+  }
+  return n;
+}
+
+function durationFlag(flags: Flags, name: string): number | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) return undefined;
+  // Bare numbers are milliseconds, as with ms()
+  const duration = ms(value);
+  if (typeof duration !== "number" || Number.isNaN(duration)) {
+    throw new UsageError(
+      `--${name} expects a duration like 500ms, 10s or 6h, got "${value}"`
+    );
+  }
+  return duration;
+}
+
+function choiceFlag<T extends string>(
+  flags: Flags,
+  name: string,
+  choices: readonly T[],
+  fallback: T
+): T;
+function choiceFlag<T extends string>(
+  flags: Flags,
+  name: string,
+  choices: readonly T[]
+): T | undefined;
+function choiceFlag<T extends string>(
+  flags: Flags,
+  name: string,
+  choices: readonly T[],
+  fallback?: T
+): T | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) return fallback;
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(
+      `--${name} must be one of ${choices.join(", ")}, got "${value}"`
+    );
+  }
+  return value as T;
+}
+
+function dateFlag(flags: Flags, name: string): Date | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new UsageError(
+      `--${name} expects a date like 2026-11-01, got "${value}"`
+    );
+  }
+  return date;
+}
+
+function listFlag(flags: Flags, name: string): string[] | undefined {
+  const value = stringFlag(flags, name);
+  return value
+    ?.split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function requireArgs(ctx: CommandContext, count: number, what: string): void {
+  if (ctx.args.length < count) throw new UsageError(`Missing ${what}`);
+}
+
+/**
+ * ScrapeOptions from the request, cache and fixture flags every command accepts.
+ */
+function scrapeOptionsFrom(flags: Flags): ScrapeOptions {
+  const cacheDir = stringFlag(flags, "cache-dir");
+  const offline = flags.offline === true;
+  const staleWhileRevalidate = flags["stale-while-revalidate"] === true;
+  // Any cache flag turns on the on-disk cache (default dir .cache/metacritic)
+  const cache: CacheOptions | undefined =
+    cacheDir || offline || staleWhileRevalidate
+      ? { store: new FileCacheStore(cacheDir), offline, staleWhileRevalidate }
+      : undefined;
+  const replay = stringFlag(flags, "replay");
+  const record = stringFlag(flags, "record");
+  const transport: Transport | undefined = replay
+    ? new ReplayTransport(replay)
+    : record
+    ? new RecordingTransport(record)
+    : undefined;
+
+  return {
+    maxCandidates: 5,
+    concurrency: positiveIntegerFlag(flags, "concurrency") ?? 2,
+    timeoutMs: durationFlag(flags, "timeout") ?? 15000,
+    delayBetweenRequestsMs: durationFlag(flags, "delay") ?? 1000,
+    cache,
+    transport,
+    // Replayed fixtures never reach the site, so there's no robots.txt to obey
+    robotsTxt: flags["ignore-robots"] !== true && !replay,
+    userAgent: stringFlag(flags, "user-agent"),
+    contact: stringFlag(flags, "contact"),
+    debugDumpDir: stringFlag(flags, "debug-dump"),
+  };
+}
+
+/**
+ * Search hints: --platform, --year or --from-year/--to-year, --exact, --limit, --offset.
+ */
+function hintOptionsFrom(flags: Flags): ScrapeOptions {
+  const year = numberFlag(flags, "year");
+  const from = numberFlag(flags, "from-year");
+  const to = numberFlag(flags, "to-year");
+  const releaseYear: ReleaseYearHint | undefined =
+    from !== undefined || to !== undefined ? { from, to } : year;
+  return {
+    platform: stringFlag(flags, "platform"),
+    releaseYear,
+    matchMode: flags.exact === true ? "exact" : undefined,
+    maxCandidates: numberFlag(flags, "limit") ?? 5,
+    offset: numberFlag(flags, "offset") ?? 0,
+  };
+}
+
+/**
+ * Read the input file argument, or stdin when it's "-" or missing.
+ */
+function readInput(ctx: CommandContext): Promise<string> {
+  const input = ctx.args[0];
+  return input && input !== "-" ? Bun.file(input).text() : ctx.io.readStdin();
+}
+
+const COMMANDS: Record<string, Command> = {
+  search: {
+    usage: "<query>",
+    summary: "Search by title, best match first.",
+    options: {
+      ...HINT_OPTIONS,
+      type: {
+        type: "string",
+        value: "game|movie|tv|person",
+        description: "What to search for (default game)",
+      },
+      ...FORMAT_OPTION,
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "search query");
+      const query = ctx.args.join(" ");
+      const format = choiceFlag(ctx.flags, "format", OUTPUT_FORMATS, "json");
+      const opts = { ...ctx.scrape, ...hintOptionsFrom(ctx.flags) };
+
+      const mediaType = stringFlag(ctx.flags, "type");
+      if (mediaType && mediaType !== "game") {
+        const { isMediaType, searchMedia } = await import("./media.ts");
+        if (!isMediaType(mediaType)) {
+          throw new UsageError(`Unknown media type "${mediaType}"`);
+        }
+        const results = await searchMedia(query, mediaType, opts);
+        if (results.length === 0) return noResults(ctx, query);
+        ctx.print(
+          formatOutput(results, format, [
+            { header: "name", value: (r) => r.name },
+            { header: "mediaType", value: (r) => r.mediaType },
+            { header: "releaseYear", value: (r) => r.releaseYear },
+            { header: "metascore", value: (r) => r.metascore },
+            { header: "matchScore", value: (r) => r.matchScore },
+            { header: "url", value: (r) => r.url },
+          ])
+        );
+        return;
+      }
+
+      const results = await searchGamesByName(query, opts);
+      if (results.length === 0) return noResults(ctx, query);
+      ctx.print(formatOutput(results, format, SEARCH_COLUMNS));
+    },
+  },
+
+  game: {
+    usage: "<url|slug>",
+    summary:
+      "Ratings and details for one game, from the backend API with the game page filling the gaps.",
+    options: {
+      platform: {
+        type: "string",
+        value: "SLUG",
+        description: "Platform page to read when given a slug, e.g. ps5",
+      },
+      ...DETAIL_OPTIONS,
+      ...FORMAT_OPTION,
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "game URL or slug");
+      const format = choiceFlag(ctx.flags, "format", OUTPUT_FORMATS, "json");
+      const input = ctx.args[0]!;
+      const platform = stringFlag(ctx.flags, "platform");
+      const game = await getGameDetails(
+        platform && !/^https?:\/\//.test(input)
+          ? buildGameUrl(input, platform)
+          : input,
+        ctx.scrape
+      );
+      if (ctx.flags.reviews === true) {
+        game.reviews = await getReviews(game.url, {}, ctx.scrape);
+      }
+      if (ctx.flags["platform-scores"] === true && game.platforms.length > 0) {
+        game.platformScores = await scrapePlatformScores(
+          game.slug,
+          game.platforms,
+          ctx.scrape
+        );
+      }
+      ctx.print(formatOutput(game, format, GAME_COLUMNS));
+    },
+  },
+
+  reviews: {
+    usage: "<url|slug>",
+    summary: "Critic and user reviews of one game, across every review page.",
+    options: {
+      type: {
+        type: "string",
+        value: "critic|user|all",
+        description: "Which reviews (default all)",
+      },
+      platform: {
+        type: "string",
+        value: "SLUG",
+        description: "Platform; defaults to the one in the URL",
+      },
+      sentiment: {
+        type: "string",
+        value: "LIST",
+        description: "Comma-separated: positive, mixed, negative",
+      },
+      "min-score": {
+        type: "string",
+        value: "N",
+        description: "Minimum score on the 0–100 scale",
+      },
+      since: {
+        type: "string",
+        value: "DATE",
+        description: "Reviews on or after",
+      },
+      until: {
+        type: "string",
+        value: "DATE",
+        description: "Reviews on or before",
+      },
+      "max-pages": {
+        type: "string",
+        value: "N",
+        description: "Pages to read per review type (default 50)",
+      },
+      limit: {
+        type: "string",
+        value: "N",
+        description: "Stop after N reviews",
+      },
+      ...FORMAT_OPTION,
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "game URL or slug");
+      const format = choiceFlag(ctx.flags, "format", OUTPUT_FORMATS, "json");
+      const sentiments: readonly ReviewSentiment[] = [
+        "positive",
+        "mixed",
+        "negative",
+      ];
+      const sentiment = listFlag(ctx.flags, "sentiment");
+      const unknown = sentiment?.find(
+        (s) => !(sentiments as readonly string[]).includes(s)
+      );
+      if (unknown) {
+        throw new UsageError(
+          `--sentiment must list ${sentiments.join(", ")}, got "${unknown}"`
+        );
+      }
+      const filters: ReviewFilters = {
+        type: choiceFlag(ctx.flags, "type", ["critic", "user", "all"]),
+        platform: stringFlag(ctx.flags, "platform"),
+        sentiment: sentiment as ReviewSentiment[] | undefined,
+        minScore: numberFlag(ctx.flags, "min-score"),
+        since: stringFlag(ctx.flags, "since"),
+        until: stringFlag(ctx.flags, "until"),
+        maxPages: numberFlag(ctx.flags, "max-pages"),
+      };
+      const limit = numberFlag(ctx.flags, "limit");
+
+      const reviews: Review[] = [];
+      if (limit === undefined || limit > 0) {
+        for await (const review of iterateReviews(
+          ctx.args[0]!,
+          filters,
+          ctx.scrape
+        )) {
+          reviews.push(review);
+          if (limit !== undefined && reviews.length >= limit) break;
+        }
+      }
+      ctx.print(formatOutput(reviews, format, REVIEW_COLUMNS));
+    },
+  },
+
+  find: {
+    usage: "<title>",
+    summary:
+      "Search for a game and return the best match's ratings (the default when no command is given).",
+    options: {
+      ...HINT_OPTIONS,
+      ...DETAIL_OPTIONS,
+      type: {
+        type: "string",
+        value: "game|movie|tv|person",
+        description: "Look up another media type (default game)",
+      },
+      ...FORMAT_OPTION,
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "title");
+      const query = ctx.args.join(" ");
+      const format = choiceFlag(ctx.flags, "format", OUTPUT_FORMATS, "json");
+      const opts: ScrapeOptions = {
+        ...ctx.scrape,
+        ...hintOptionsFrom(ctx.flags),
+        includeReviews: ctx.flags.reviews === true,
+        includePlatformScores: ctx.flags["platform-scores"] === true,
+      };
+
+      // --type=movie|tv|person looks up another media type; games stay the default
+      const mediaType = stringFlag(ctx.flags, "type");
+      if (mediaType && mediaType !== "game") {
+        const { isMediaType, searchMedia, getMediaDetails } = await import(
+          "./media.ts"
+        );
+        if (!isMediaType(mediaType)) {
+          throw new UsageError(`Unknown media type "${mediaType}"`);
+        }
+        const results = await searchMedia(query, mediaType, opts);
+        if (results.length === 0) return noResults(ctx, query);
+        const details = await getMediaDetails(results[0]!.url, mediaType, opts);
+        ctx.print(formatOutput(details, format, MEDIA_COLUMNS));
+        return;
+      }
+
+      const results = await getGameRatingsAndReviewsByName(query, opts);
+      if (results.length === 0) return noResults(ctx, query);
+      ctx.print(formatOutput(results, format, GAME_COLUMNS));
+    },
+  },
+
+  browse: {
+    usage: "",
+    summary: "List games by platform, year, genre and score.",
+    options: {
+      platform: { type: "string", value: "SLUG", description: "e.g. switch" },
+      year: {
+        type: "string",
+        value: "YEAR",
+        description: "Shorthand for --from-year=YEAR --to-year=YEAR",
+      },
+      "from-year": {
+        type: "string",
+        value: "YEAR",
+        description: "Released in or after",
+      },
+      "to-year": {
+        type: "string",
+        value: "YEAR",
+        description: "Released in or before",
+      },
+      genre: { type: "string", value: "GENRE", description: "e.g. rpg" },
+      sort: {
+        type: "string",
+        value: "metascore|userscore|release-date",
+        description: "Listing order (default metascore)",
+      },
+      page: {
+        type: "string",
+        value: "N",
+        description: "Listing page to start at",
+      },
+      limit: {
+        type: "string",
+        value: "N",
+        description: "Results to return, across pages (default one page)",
+      },
+      ...FORMAT_OPTION,
+    },
+    async run(ctx) {
+      const { iterateBrowse, BROWSE_PAGE_SIZE } = await import("./browse.ts");
+      const format = choiceFlag(ctx.flags, "format", OUTPUT_FORMATS, "json");
+      const platformName = stringFlag(ctx.flags, "platform");
+      const platform = normalizePlatform(platformName);
+      if (platformName && !platform) {
+        throw new UsageError(`Unknown platform "${platformName}"`);
+      }
+      const year = numberFlag(ctx.flags, "year");
+      const results = [];
+      for await (const result of iterateBrowse(
+        {
+          platform,
+          yearFrom: numberFlag(ctx.flags, "from-year") ?? year,
+          yearTo: numberFlag(ctx.flags, "to-year") ?? year,
+          genre: stringFlag(ctx.flags, "genre"),
+          sort: choiceFlag(
+            ctx.flags,
+            "sort",
+            ["metascore", "userscore", "release-date"] as const,
+            "metascore"
+          ),
+          page: numberFlag(ctx.flags, "page"),
+        },
+        ctx.scrape,
+        numberFlag(ctx.flags, "limit") ?? BROWSE_PAGE_SIZE
+      )) {
+        results.push(result);
+      }
+      ctx.print(
+        formatOutput(results, format, [
+          { header: "rank", value: (r) => r.rank },
+          { header: "name", value: (r) => r.name },
+          { header: "platforms", value: (r) => r.platforms.join(" ") },
+          { header: "releaseDate", value: (r) => r.releaseDate },
+          { header: "metascore", value: (r) => r.metascore },
+          { header: "userscore", value: (r) => r.userscore },
+          { header: "url", value: (r) => r.url },
+        ])
+      );
+    },
+  },
+
+  releases: {
+    usage: "",
+    summary:
+      "Upcoming and new game releases as an iCalendar file or a JSON/RSS feed, updated with metascores as reviews land.",
+    options: {
+      from: {
+        type: "string",
+        value: "DATE",
+        description: "Released on or after (default 30 days ago)",
+      },
+      to: {
+        type: "string",
+        value: "DATE",
+        description: "Released on or before (default 90 days from now)",
+      },
+      platform: { type: "string", value: "SLUG", description: "e.g. switch" },
+      listing: {
+        type: "string",
+        value: "upcoming|new|all",
+        description: "Which listings to read (default all)",
+      },
+      "include-undated": {
+        type: "boolean",
+        description: "Also list month, quarter and year dates (e.g. Q1 2027)",
+      },
+      limit: {
+        type: "string",
+        value: "N",
+        description: "Titles to keep per listing, earliest first (default 240)",
+      },
+      state: {
+        type: "string",
+        value: "FILE",
+        description:
+          "Previous events, read and rewritten, so updated events get a new revision",
+      },
+      title: {
+        type: "string",
+        value: "TEXT",
+        description: "Calendar or feed title",
+      },
+      format: {
+        type: "string",
+        value: "ics|json|rss",
+        description: "Output format (default ics)",
+      },
+    },
+    async run(ctx) {
+      const { getReleaseCalendar, formatReleaseFeed, RELEASE_FEED_FORMATS } =
+        await import("./releases.ts");
+      const format = choiceFlag(
+        ctx.flags,
+        "format",
+        RELEASE_FEED_FORMATS,
+        "ics"
+      );
+      const platformName = stringFlag(ctx.flags, "platform");
+      const platform = normalizePlatform(platformName);
+      if (platformName && !platform) {
+        throw new UsageError(`Unknown platform "${platformName}"`);
+      }
+      const listing = choiceFlag(
+        ctx.flags,
+        "listing",
+        ["upcoming", "new", "all"] as const,
+        "all"
+      );
+      const statePath = stringFlag(ctx.flags, "state");
+      const stateFile = statePath ? Bun.file(statePath) : undefined;
+      const previous =
+        stateFile && (await stateFile.exists())
+          ? await stateFile.json()
+          : undefined;
+
+      const events = await getReleaseCalendar(
+        {
+          from: dateFlag(ctx.flags, "from"),
+          to: dateFlag(ctx.flags, "to"),
+          platform,
+          listings: listing === "all" ? undefined : [listing],
+          includeUndated: ctx.flags["include-undated"] === true,
+          maxResults: numberFlag(ctx.flags, "limit"),
+          previous,
+        },
+        ctx.scrape
+      );
+      if (statePath) {
+        await Bun.write(statePath, JSON.stringify(events, null, 2) + "\n");
+      }
+      const feed = formatReleaseFeed(events, format, {
+        title: stringFlag(ctx.flags, "title"),
+      });
+      // .ics already ends with CRLF
+      if (format === "ics") ctx.io.stdout(feed);
+      else ctx.print(feed);
+    },
+  },
+
+  compare: {
+    usage: "<game> <game> ...",
+    summary:
+      "Compare games side by side, flagging large critic/user score gaps. Games are URLs, slugs or titles.",
+    options: {
+      threshold: {
+        type: "string",
+        value: "N",
+        description: "Score gap that flags a game (default 20)",
+      },
+      format: {
+        type: "string",
+        value: "text|markdown|json",
+        description: "Output format (default text)",
+      },
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "games to compare");
+      const { compareGames, formatComparison } = await import("./compare.ts");
+      const format = choiceFlag(
+        ctx.flags,
+        "format",
+        ["text", "markdown", "json"],
+        "text"
+      );
+      const rows = await compareGames(ctx.args, {
+        threshold: numberFlag(ctx.flags, "threshold"),
+        scrape: ctx.scrape,
+      });
+      ctx.print(formatComparison(rows, format));
+      if (rows.some((r) => r.error)) return EXIT_CODES.error;
+    },
+  },
+
+  publication: {
+    usage: "<outlet>",
+    summary:
+      "A review outlet's game reviews and scoring statistics, e.g. IGN or pc-gamer.",
+    options: {
+      "max-pages": {
+        type: "string",
+        value: "N",
+        description: "Review pages to read",
+      },
+      limit: {
+        type: "string",
+        value: "N",
+        description: "Stop after N reviews",
+      },
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "outlet name or slug");
+      const { getPublicationProfile } = await import("./publications.ts");
+      const profile = await getPublicationProfile(
+        ctx.args.join(" "),
+        {
+          maxPages: numberFlag(ctx.flags, "max-pages"),
+          maxReviews: numberFlag(ctx.flags, "limit"),
+        },
+        ctx.scrape
+      );
+      ctx.print(JSON.stringify(profile, null, 2));
+    },
+  },
+
+  batch: {
+    usage: "[file|-]",
+    summary:
+      "Look up a list of titles (one per line, from a file or stdin) with resumable output.",
+    options: {
+      format: {
+        type: "string",
+        value: "ndjson|csv",
+        description: "Output format (default ndjson)",
+      },
+      out: {
+        type: "string",
+        value: "FILE",
+        description: "Append results here instead of stdout",
+      },
+      checkpoint: {
+        type: "string",
+        value: "FILE",
+        description: "Record finished entries here and skip them next run",
+      },
+    },
+    async run(ctx) {
+      const { parseBatchInput, runBatch } = await import("./batch.ts");
+      const format = choiceFlag(
+        ctx.flags,
+        "format",
+        ["ndjson", "csv"],
+        "ndjson"
+      );
+      const text = await readInput(ctx);
+      const outPath = stringFlag(ctx.flags, "out");
+      // Appending to an existing CSV (e.g. on resume) must not repeat the header
+      const outHasData = outPath
+        ? await stat(outPath).then(
+            (st) => st.size > 0,
+            () => false
+          )
+        : false;
+
+      const summary = await runBatch(parseBatchInput(text), {
+        format,
+        write: (chunk) =>
+          outPath ? appendFile(outPath, chunk) : ctx.io.stdout(chunk),
+        writeHeader: !outHasData,
+        checkpointPath: stringFlag(ctx.flags, "checkpoint"),
+        scrape: ctx.scrape,
+      });
+      ctx.io.stderr(
+        JSON.stringify({ ...summary, requests: ctx.metrics.summary() }) + "\n"
+      );
+      if (summary.errors > 0) return EXIT_CODES.error;
+    },
+  },
+
+  watch: {
+    usage: "[file|-]",
+    summary:
+      "Poll a watchlist (batch input format) and report score changes as NDJSON or to a webhook.",
+    options: {
+      interval: {
+        type: "string",
+        value: "DURATION",
+        description: "Time between polls, e.g. 6h",
+      },
+      once: { type: "boolean", description: "Poll once and exit" },
+      webhook: {
+        type: "string",
+        value: "URL",
+        description: "POST each change here instead of printing it",
+      },
+      "snapshots-dir": {
+        type: "string",
+        value: "DIR",
+        description: "Where score history is kept",
+      },
+    },
+    async run(ctx) {
+      const { FileSnapshotStore } = await import("./snapshots.ts");
+      const { parseBatchInput } = await import("./batch.ts");
+      const { watch, stdoutNotifier, webhookNotifier } = await import(
+        "./watch.ts"
+      );
+      const intervalMs = durationFlag(ctx.flags, "interval");
+      const text = await readInput(ctx);
+      const webhook = stringFlag(ctx.flags, "webhook");
+      await watch(parseBatchInput(text), {
+        store: new FileSnapshotStore(stringFlag(ctx.flags, "snapshots-dir")),
+        notify: webhook
+          ? webhookNotifier(webhook)
+          : stdoutNotifier(ctx.io.stdout),
+        scrape: ctx.scrape,
+        intervalMs,
+        iterations: ctx.flags.once === true ? 1 : undefined,
+        onPoll: (results) =>
+          results
+            .filter((r) => r.status === "error")
+            .forEach((r) =>
+              ctx.io.stderr(`Watch: ${r.entry.title}: ${r.error}\n`)
+            ),
+      });
+    },
+  },
+
+  history: {
+    usage: "<url|key>",
+    summary: "Recorded score snapshots of a watched game, e.g. pc/doom.",
+    options: {
+      since: {
+        type: "string",
+        value: "DATE",
+        description: "Snapshots on or after",
+      },
+      until: {
+        type: "string",
+        value: "DATE",
+        description: "Snapshots on or before",
+      },
+      limit: {
+        type: "string",
+        value: "N",
+        description: "Most recent N snapshots",
+      },
+      "snapshots-dir": {
+        type: "string",
+        value: "DIR",
+        description: "Where score history is kept",
+      },
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "game URL or snapshot key");
+      const { FileSnapshotStore, snapshotKey } = await import("./snapshots.ts");
+      const store = new FileSnapshotStore(
+        stringFlag(ctx.flags, "snapshots-dir")
+      );
+      const snapshots = await store.history(snapshotKey(ctx.args[0]!), {
+        since: dateFlag(ctx.flags, "since"),
+        until: dateFlag(ctx.flags, "until"),
+        limit: numberFlag(ctx.flags, "limit"),
+      });
+      ctx.print(JSON.stringify(snapshots, null, 2));
+    },
+  },
+
+  doctor: {
+    usage: "<url|file.html>",
+    summary:
+      "Check a game page against every selector chain and report which fields still parse.",
+    options: {
+      require: {
+        type: "string",
+        value: "LIST",
+        description:
+          "Fields that must parse (default name,metascore,releaseDate)",
+      },
+      format: {
+        type: "string",
+        value: "text|json",
+        description: "Output format (default text)",
+      },
+    },
+    async run(ctx) {
+      requireArgs(ctx, 1, "game URL or saved page");
+      const {
+        runDoctor,
+        formatDoctorReport,
+        DEFAULT_REQUIRED_FIELDS,
+        DOCTOR_FIELDS,
+      } = await import("./doctor.ts");
+      const format = choiceFlag(ctx.flags, "format", ["text", "json"], "text");
+      const required =
+        listFlag(ctx.flags, "require") ?? DEFAULT_REQUIRED_FIELDS;
+      const unknown = required.filter((f) => !DOCTOR_FIELDS.includes(f));
+      if (unknown.length > 0) {
+        throw new UsageError(
+          `--require takes ${DOCTOR_FIELDS.join(", ")}; unknown: ${unknown.join(
+            ", "
+          )}`
+        );
+      }
+      const report = await runDoctor(ctx.args[0]!, ctx.scrape, required);
+      ctx.print(
+        format === "json"
+          ? JSON.stringify(report, null, 2)
+          : formatDoctorReport(report, required)
+      );
+      if (!report.ok) return EXIT_CODES.layout;
+    },
+  },
+
+  serve: {
+    usage: "",
+    summary: "Run the HTTP API (search, games and reviews routes).",
+    options: {
+      port: { type: "string", value: "N", description: "default 3000" },
+      host: {
+        type: "string",
+        value: "ADDR",
+        description:
+          "Interface to listen on (default 127.0.0.1; 0.0.0.0 for all)",
+      },
+    },
+    async run(ctx) {
+      // Loaded lazily so library users never pull in the server
+      const { startServer } = await import("./server.ts");
+      const server = startServer({
+        port: numberFlag(ctx.flags, "port"),
+        hostname: stringFlag(ctx.flags, "host"),
+        scrape: ctx.scrape,
+      });
+      ctx.io.stderr(`Listening on ${server.url}\n`);
+    },
+  },
+};
+
+function noResults(ctx: CommandContext, query: string): number {
+  ctx.io.stderr(`No results for "${query}"\n`);
+  return EXIT_CODES.notFound;
+}
+
+/**
+ * The exit code for an error a command threw.
+ */
+export function exitCodeFor(err: unknown): number {
+  if (err instanceof UsageError) return EXIT_CODES.usage;
+  if (err instanceof NotFoundError) return EXIT_CODES.notFound;
+  if (
+    err instanceof RateLimitedError ||
+    err instanceof ForbiddenError ||
+    err instanceof TimeoutError ||
+    err instanceof UpstreamError ||
+    err instanceof RobotsDisallowedError ||
+    err instanceof CacheMissError
+  ) {
+    return EXIT_CODES.unavailable;
+  }
+  if (err instanceof ParseError) return EXIT_CODES.layout;
+  return EXIT_CODES.error;
+}
+
+function allOptions(command: Command): OptionSpecs {
+  return { ...command.options, ...REQUEST_OPTIONS, ...HELP_OPTION };
+}
+
+function usageLine(name: string, command: Command): string {
+  return `Usage: ${PROGRAM} ${name}${
+    command.usage ? ` ${command.usage}` : ""
+  } [options]`;
+}
+
+function optionLines(options: OptionSpecs): string[] {
+  const labels = Object.entries(options).map(
+    ([name, spec]) =>
+      `${spec.short ? `-${spec.short}, ` : ""}--${name}${
+        spec.value ? ` <${spec.value}>` : ""
+      }`
+  );
+  const width = Math.max(...labels.map((l) => l.length));
+  return Object.values(options).map(
+    (spec, i) => `  ${labels[i]!.padEnd(width)}  ${spec.description}`
+  );
+}
+
+/**
+ * Help text for one command, or the command list when `name` is undefined.
+ */
+export function helpText(name?: string): string {
+  const command = name ? COMMANDS[name] : undefined;
+  if (name && command) {
+    return [
+      usageLine(name, command),
+      "",
+      command.summary,
+      "",
+      "Options:",
+      ...optionLines(command.options),
+      "",
+      "Request options:",
+      ...optionLines({ ...REQUEST_OPTIONS, ...HELP_OPTION }),
+    ].join("\n");
+  }
+
+  const width = Math.max(...Object.keys(COMMANDS).map((n) => n.length));
+  return [
+    `Usage: ${PROGRAM} <command> [arguments] [options]`,
+    `       ${PROGRAM} <title> [options]   (same as find)`,
+    "",
+    "Commands:",
+    ...Object.entries(COMMANDS).map(
+      ([n, c]) => `  ${n.padEnd(width)}  ${c.summary}`
+    ),
+    "",
+    `Run "${PROGRAM} <command> --help" for a command's options.`,
+    "",
+    "Exit codes:",
+    "  0  success",
+    "  1  error (or some rows of a batch/comparison failed)",
+    "  2  invalid command line",
+    "  3  not found: no search results, or the page doesn't exist",
+    "  4  unavailable: rate limited, blocked (HTTP 403 or robots.txt), timed out or offline cache miss",
+    "  5  a page didn't parse, or doctor found required fields missing",
+  ].join("\n");
+}
+
+/**
+ * Run one command line (without the runtime and script arguments) and return its exit code.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = processIO
+): Promise<number> {
+  const [first, ...rest] = argv;
+
+  if (first === undefined) {
+    io.stderr(helpText() + "\n");
+    return EXIT_CODES.usage;
+  }
+  if (first === "help" || first === "--help" || first === "-h") {
+    const name = first === "help" ? rest[0] : undefined;
+    if (name && !COMMANDS[name]) {
+      io.stderr(`Error: Unknown command "${name}"\n\n${helpText()}\n`);
+      return EXIT_CODES.usage;
+    }
+    io.stdout(helpText(name) + "\n");
+    return EXIT_CODES.ok;
+  }
+
+  // Anything that isn't a command or a flag is a title to find
+  const name = COMMANDS[first] ? first : first.startsWith("-") ? "" : "find";
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr(`Error: Unknown command "${first}"\n\n${helpText()}\n`);
+    return EXIT_CODES.usage;
+  }
+
+  const metrics = new MetricsCollector();
+  let logger: Logger | undefined;
+  const finish = (exitCode: number) => {
+    // serve keeps running after it returns, so there's nothing to sum up yet
+    if (name !== "serve") {
+      logger?.info("summary", {
+        command: name,
+        exitCode,
+        ...metrics.summary(),
+      });
+    }
+    return exitCode;
+  };
+
+  try {
+    const options = allOptions(command);
+    const { values, positionals } = parseArgs({
+      args: name === first ? rest : argv,
+      options: Object.fromEntries(
+        Object.entries(options).map(([n, spec]) => [
+          n,
+          spec.short
+            ? { type: spec.type, short: spec.short }
+            : { type: spec.type },
+        ])
+      ),
+      allowPositionals: true,
+      strict: true,
+    });
+    const flags = values as Flags;
+    if (flags.help === true) {
+      io.stdout(helpText(name) + "\n");
+      return EXIT_CODES.ok;
+    }
+
+    logger = createJsonLogger({
+      level: choiceFlag(flags, "log-level", LOG_LEVELS, "info"),
+      write: io.stderr,
+    });
+    const ctx: CommandContext = {
+      args: positionals,
+      flags,
+      scrape: instrument(scrapeOptionsFrom(flags), { logger, metrics }),
+      io,
+      print: (text) => {
+        if (text) io.stdout(text + "\n");
+      },
+      metrics,
+    };
+    return finish((await command.run(ctx)) ?? EXIT_CODES.ok);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    // node:util parseArgs rejects unknown flags and missing values with ERR_PARSE_ARGS_* codes
+    const code = (err as { code?: unknown } | undefined)?.code;
+    if (
+      err instanceof UsageError ||
+      (typeof code === "string" && code.startsWith("ERR_PARSE_ARGS"))
+    ) {
+      io.stderr(`Error: ${message}\n${usageLine(name, command)}\n`);
+      return EXIT_CODES.usage;
+    }
+    io.stderr(`Error: ${message}\n`);
+    return finish(exitCodeFor(err));
+  }
+}
@@ -0,0 +1,204 @@
+// filename: compare.ts
+// Description: Compare several games side by side, with the critic/user score gap and divergence flags.
+// Usage:
+//   bun metacritic-game-scraper.ts compare "DOOM" "DOOM Eternal" doom-the-dark-ages --format=markdown
+//   bun metacritic-game-scraper.ts compare https://www.metacritic.com/game/pc/doom/ "Quake" --threshold=15
+// Notes:
+// - Inputs are game URLs, slugs (lowercase with hyphens, e.g. "doom-eternal") or titles to search for.
+// - Userscores are scaled ×10 so both scores share the metascore's 0–100 scale.
+
+import { AbortedError, NotFoundError } from "./errors.ts";
+import { SITE_BASE_URL } from "./http.ts";
+import {
+  getGameDetails,
+  searchGamesByName,
+  type GameRatings,
+  type ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+
+export type DivergenceFlag =
+  | "review-bombed"
+  | "critic-darling"
+  | "user-favorite";
+
+export type CompareFormat = "text" | "markdown" | "json";
+
+export interface CompareRow {
+  input: string; // As given
+  name?: string;
+  url?: string;
+  metascore?: number; // 0–100
+  userscore?: number; // Scaled to 0–100
+  gap?: number; // metascore - userscore; positive when critics rate it higher
+  criticReviewsCount?: number;
+  userRatingsCount?: number;
+  releaseDate?: string; // ISO when parsable, otherwise as shown
+  flag?: DivergenceFlag;
+  error?: string; // Set when the input couldn't be resolved or fetched
+}
+
+export interface CompareOptions {
+  threshold?: number; // default 20 - |gap| at which a row is flagged
+  scrape?: ScrapeOptions;
+}
+
+export const DEFAULT_DIVERGENCE_THRESHOLD = 20;
+
+/**
+ * Which way critics and users disagree, when they disagree by at least `threshold` points:
+ * users panning a game critics liked is "review-bombed" when the userscore is outright
+ * negative (below 50), otherwise "critic-darling"; users well above critics is "user-favorite".
+ */
+export function divergenceFlag(
+  metascore: number | undefined,
+  userscore: number | undefined,
+  threshold = DEFAULT_DIVERGENCE_THRESHOLD
+): DivergenceFlag | undefined {
+  if (metascore === undefined || userscore === undefined) return undefined;
+  const gap = metascore - userscore;
+  if (gap >= threshold)
+    return userscore < 50 ? "review-bombed" : "critic-darling";
+  if (gap <= -threshold) return "user-favorite";
+  return undefined;
+}
+
+/**
+ * One table row from a game's details.
+ */
+export function compareRow(
+  input: string,
+  game: GameRatings,
+  threshold = DEFAULT_DIVERGENCE_THRESHOLD
+): CompareRow {
+  // 8.1 -> 81; rounded so float noise doesn't leak into the gap
+  const userscore =
+    game.userscore !== undefined ? Math.round(game.userscore * 10) : undefined;
+  return {
+    input,
+    name: game.name,
+    url: game.url,
+    metascore: game.metascore,
+    userscore,
+    gap:
+      game.metascore !== undefined && userscore !== undefined
+        ? game.metascore - userscore
+        : undefined,
+    criticReviewsCount: game.criticReviewsCount,
+    userRatingsCount: game.userRatingsCount,
+    releaseDate: game.releaseDateNormalized?.iso ?? game.releaseDate,
+    flag: divergenceFlag(game.metascore, userscore, threshold),
+  };
+}
+
+async function resolveGame(
+  input: string,
+  opts: ScrapeOptions
+): Promise<GameRatings> {
+  if (/^https?:\/\//.test(input) || /^[a-z0-9]+(?:-[a-z0-9]+)+$/.test(input)) {
+    return getGameDetails(input, opts);
+  }
+  const [best] = await searchGamesByName(input, opts);
+  if (!best) {
+    throw new NotFoundError(
+      `${SITE_BASE_URL}/search/${encodeURIComponent(input)}/`,
+      `No search results for "${input}"`
+    );
+  }
+  return getGameDetails(best.url, opts);
+}
+
+/**
+ * Resolve every input and build its row, in input order. Failures become rows with `error`.
+ */
+export async function compareGames(
+  inputs: string[],
+  options: CompareOptions = {}
+): Promise<CompareRow[]> {
+  const scrape = options.scrape ?? {};
+  const rows: CompareRow[] = [];
+  // One at a time: the scheduler would serialize the requests anyway
+  for (const input of inputs) {
+    try {
+      rows.push(
+        compareRow(input, await resolveGame(input, scrape), options.threshold)
+      );
+    } catch (err) {
+      // Cancelling the comparison cancels it, rather than failing every remaining row
+      if (err instanceof AbortedError) throw err;
+      rows.push({
+        input,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return rows;
+}
+
+const COLUMNS: {
+  header: string;
+  value: (row: CompareRow) => string;
+  numeric?: boolean;
+}[] = [
+  { header: "Game", value: (r) => r.name ?? r.input },
+  { header: "Metascore", value: (r) => cell(r.metascore), numeric: true },
+  { header: "Userscore", value: (r) => cell(r.userscore), numeric: true },
+  {
+    header: "Gap",
+    value: (r) =>
+      r.gap === undefined ? "-" : r.gap > 0 ? `+${r.gap}` : String(r.gap),
+    numeric: true,
+  },
+  {
+    header: "Critics",
+    value: (r) => cell(r.criticReviewsCount),
+    numeric: true,
+  },
+  { header: "Users", value: (r) => cell(r.userRatingsCount), numeric: true },
+  { header: "Released", value: (r) => r.releaseDate ?? "-" },
+  {
+    header: "Flag",
+    value: (r) => (r.error ? `error: ${r.error}` : r.flag ?? ""),
+  },
+];
+
+function cell(value: number | undefined): string {
+  return value === undefined ? "-" : String(value);
+}
+
+/**
+ * Render rows as an aligned plain-text table, a Markdown table or JSON.
+ */
+export function formatComparison(
+  rows: CompareRow[],
+  format: CompareFormat = "text"
+): string {
+  if (format === "json") return JSON.stringify(rows, null, 2);
+
+  const cells = rows.map((row) => COLUMNS.map((c) => c.value(row)));
+
+  if (format === "markdown") {
+    const line = (values: string[]) =>
+      `| ${values.map((v) => v.replace(/\|/g, "\\|")).join(" | ")} |`;
+    return [
+      line(COLUMNS.map((c) => c.header)),
+      `| ${COLUMNS.map((c) => (c.numeric ? "---:" : "---")).join(" | ")} |`,
+      ...cells.map(line),
+    ].join("\n");
+  }
+
+  const widths = COLUMNS.map((c, i) =>
+    Math.max(c.header.length, ...cells.map((r) => r[i]!.length))
+  );
+  const line = (values: string[]) =>
+    values
+      .map((v, i) =>
+        COLUMNS[i]!.numeric ? v.padStart(widths[i]!) : v.padEnd(widths[i]!)
+      )
+      .join("  ")
+      .trimEnd();
+  return [
+    line(COLUMNS.map((c) => c.header)),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...cells.map(line),
+  ].join("\n");
+}
@@ -0,0 +1,212 @@
+// filename: dates.ts
+// Description: Parse the date formats Metacritic shows ("Nov 14, 2025", "Q2 2026", "TBA 2026", ISO) into structured dates.
+// Notes:
+// - Metacritic renders dates for the en-US locale, so numeric dates are read month-first (11/14/2025).
+// - Coarse dates sort and filter by the first day of their period; `precision` says how much of `iso` is real.
+
+export type DatePrecision = "day" | "month" | "quarter" | "year" | "tba";
+
+export interface NormalizedDate {
+  original: string; // The text as scraped
+  precision: DatePrecision;
+  iso?: string; // YYYY-MM-DD; the first day of the month/quarter/year for coarser precisions; unset for TBA
+  year?: number;
+  month?: number; // 1–12, for day and month precision
+  quarter?: number; // 1–4, for quarter precision
+}
+
+const MONTH_NAMES = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+/**
+ * 1–12 for a full month name or its abbreviation ("Sep", "Sept.", "September").
+ */
+function monthNumber(name: string): number | undefined {
+  const key = name.toLowerCase().replace(/\.$/, "");
+  if (key.length < 3) return undefined;
+  const i = MONTH_NAMES.findIndex(
+    (full) =>
+      full.startsWith(key) &&
+      (key.length === 3 || key === "sept" || key === full)
+  );
+  return i >= 0 ? i + 1 : undefined;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  return d.getUTCMonth() === month - 1 && d.getUTCDate() === day;
+}
+
+function dayDate(
+  original: string,
+  year: number,
+  month: number,
+  day: number
+): NormalizedDate | undefined {
+  if (!isValidDay(year, month, day)) return undefined;
+  return {
+    original,
+    precision: "day",
+    iso: `${year}-${pad(month)}-${pad(day)}`,
+    year,
+    month,
+  };
+}
+
+function yearDate(original: string, year: number): NormalizedDate {
+  return { original, precision: "year", iso: `${year}-01-01`, year };
+}
+
+// A word that may be a month name; monthNumber decides
+const MONTH_NAME = "([a-z]{3,9}\\.?)";
+
+/**
+ * Parse a scraped or API date. Returns undefined for empty or unrecognized text.
+ */
+export function normalizeDate(text?: string): NormalizedDate | undefined {
+  const original = text?.trim();
+  if (!original) return undefined;
+  const t = original.replace(/\s+/g, " ");
+  let m: RegExpMatchArray | null;
+
+  // 2025-11-14, 2025-11-14T00:00:00Z
+  if (
+    (m = t.match(
+      /^(\d{4})-(\d{2})-(\d{2})(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/
+    ))
+  ) {
+    return dayDate(original, Number(m[1]), Number(m[2]), Number(m[3]));
+  }
+  // 2025-11
+  if ((m = t.match(/^(\d{4})-(\d{2})$/))) {
+    const month = Number(m[2]);
+    if (month < 1 || month > 12) return undefined;
+    return {
+      original,
+      precision: "month",
+      iso: `${m[1]}-${pad(month)}-01`,
+      year: Number(m[1]),
+      month,
+    };
+  }
+  // 11/14/2025 (en-US month-first)
+  if ((m = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    return dayDate(original, Number(m[3]), Number(m[1]), Number(m[2]));
+  }
+  // Nov 14, 2025 / November 14 2025
+  if (
+    (m = t.match(
+      new RegExp(`^${MONTH_NAME} (\\d{1,2})(?:st|nd|rd|th)?,? (\\d{4})$`, "i")
+    ))
+  ) {
+    const month = monthNumber(m[1]!);
+    if (month) return dayDate(original, Number(m[3]), month, Number(m[2]));
+  }
+  // 14 Nov 2025 / 14 November, 2025
+  if ((m = t.match(new RegExp(`^(\\d{1,2}) ${MONTH_NAME},? (\\d{4})$`, "i")))) {
+    const month = monthNumber(m[2]!);
+    if (month) return dayDate(original, Number(m[3]), month, Number(m[1]));
+  }
+  // Nov 2025 / November, 2025
+  if ((m = t.match(new RegExp(`^${MONTH_NAME},? (\\d{4})$`, "i")))) {
+    const month = monthNumber(m[1]!);
+    if (month) {
+      return {
+        original,
+        precision: "month",
+        iso: `${m[2]}-${pad(month)}-01`,
+        year: Number(m[2]),
+        month,
+      };
+    }
+  }
+  // Q2 2026 / 2026 Q2 / 2nd Quarter 2026
+  if (
+    (m = t.match(/^(?:Q([1-4])|([1-4])(?:st|nd|rd|th) quarter),? (\d{4})$/i)) ||
+    (m = t.match(/^(\d{4}) Q([1-4])$/i))
+  ) {
+    const [year, quarter] =
+      m[3] !== undefined
+        ? [Number(m[3]), Number(m[1] ?? m[2])]
+        : [Number(m[1]), Number(m[2])];
+    return {
+      original,
+      precision: "quarter",
+      iso: `${year}-${pad((quarter - 1) * 3 + 1)}-01`,
+      year,
+      quarter,
+    };
+  }
+  // 2026
+  if ((m = t.match(/^(\d{4})$/))) return yearDate(original, Number(m[1]));
+  // TBA, TBD, Coming Soon - with no year at all
+  if (/^(tba|tbd|to be (announced|determined)|coming soon)$/i.test(t)) {
+    return { original, precision: "tba" };
+  }
+  // TBA 2026, Early 2026, Spring 2026: only the year is known
+  if ((m = t.match(/^[a-z ]+,? (\d{4})$/i)))
+    return yearDate(original, Number(m[1]));
+
+  return undefined;
+}
+
+/**
+ * Epoch ms of the start of the date's period; undefined for TBA.
+ */
+export function dateTime(date?: NormalizedDate): number | undefined {
+  return date?.iso ? Date.parse(`${date.iso}T00:00:00Z`) : undefined;
+}
+
+/**
+ * True when the date's period starts within [since, until]; TBA dates never match.
+ */
+export function isInDateRange(
+  date: NormalizedDate | undefined,
+  since?: Date,
+  until?: Date
+): boolean {
+  const t = dateTime(date);
+  if (t === undefined) return false;
+  return (
+    (since === undefined || t >= since.getTime()) &&
+    (until === undefined || t <= until.getTime())
+  );
+}
+
+/**
+ * Sort comparator: earliest first, TBA and unparsed dates last.
+ */
+export function compareDates(a?: NormalizedDate, b?: NormalizedDate): number {
+  const ta = dateTime(a) ?? Infinity;
+  const tb = dateTime(b) ?? Infinity;
+  return ta === tb ? 0 : ta < tb ? -1 : 1;
+}
+
+/**
+ * Whole days from the date to `now` (negative when it's in the future); undefined for TBA.
+ */
+export function daysSince(
+  date?: NormalizedDate,
+  now: Date = new Date()
+): number | undefined {
+  const t = dateTime(date);
+  return t === undefined
+    ? undefined
+    : Math.floor((now.getTime() - t) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,136 @@
+// filename: doctor.ts
+// Description: Check a game page (live or saved) against every selector chain and report which ones still match.
+// Usage:
+//   bun metacritic-game-scraper.ts doctor https://www.metacritic.com/game/pc/doom/
+//   bun metacritic-game-scraper.ts doctor saved-page.html --require=name,metascore,userscore
+// Notes:
+// - Exits non-zero when a required field matched no selector, so it can run on a schedule to catch layout drift.
+
+import { readFile } from "node:fs/promises";
+import { ParseError } from "./errors.ts";
+import { fetchText } from "./http.ts";
+import {
+  parseGamePage,
+  type ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+import { SelectorTrace, type FieldTrace } from "./selectors.ts";
+
+// Every field a game page trace can report, in page order; `--require` takes these
+export const DOCTOR_FIELDS = [
+  "name",
+  "platform",
+  "metascore",
+  "userscore",
+  "criticReviewsCount",
+  "userRatingsCount",
+  "releaseDate",
+  "criticReview.source",
+  "criticReview.score",
+  "criticReview.date",
+  "criticReview.quote",
+  "criticReview.url",
+  "criticReviews",
+  "userReview.source",
+  "userReview.score",
+  "userReview.date",
+  "userReview.quote",
+  "userReviews",
+  "developers",
+  "publishers",
+  "genres",
+  "contentRating",
+  "summary",
+  "coverImageUrl",
+  "criticDistribution",
+  "userDistribution",
+];
+
+export const DEFAULT_REQUIRED_FIELDS = ["name", "metascore", "releaseDate"];
+
+export interface DoctorReport {
+  url: string;
+  source: "file" | "url";
+  fields: FieldTrace[];
+  missingRequired: string[]; // Required fields no selector matched
+  ok: boolean;
+  error?: string; // Set when the page could not be parsed at all
+}
+
+/**
+ * Run every selector chain over a game page's HTML.
+ */
+export function diagnoseGamePage(
+  html: string,
+  url = "https://www.metacritic.com/game/",
+  required: string[] = DEFAULT_REQUIRED_FIELDS
+): Omit<DoctorReport, "source"> {
+  const trace = new SelectorTrace();
+  let error: string | undefined;
+  try {
+    parseGamePage(html, url, trace);
+  } catch (e) {
+    // A missing title throws, but the trace has already been filled in
+    if (!(e instanceof ParseError)) throw e;
+    error = e.message;
+  }
+  const missingRequired = required.filter(
+    (field) => !trace.get(field)?.matched
+  );
+  return {
+    url,
+    fields: trace.fields,
+    missingRequired,
+    ok: missingRequired.length === 0,
+    error,
+  };
+}
+
+/**
+ * Diagnose a page: fetched when `target` is an http(s) URL, otherwise read as a
+ * saved HTML file, so a mistyped path fails instead of being requested.
+ */
+export async function runDoctor(
+  target: string,
+  opts: ScrapeOptions = {},
+  required: string[] = DEFAULT_REQUIRED_FIELDS
+): Promise<DoctorReport> {
+  const isUrl = /^https?:\/\//i.test(target);
+  const html = isUrl
+    ? await fetchText(target, opts, "game")
+    : await readFile(target, "utf-8");
+  const report = diagnoseGamePage(html, isUrl ? target : undefined, required);
+  return { ...report, source: isUrl ? "url" : "file" };
+}
+
+/**
+ * One line per field: a mark, the field, and the selector that matched (or the chain that didn't).
+ */
+export function formatDoctorReport(
+  report: Omit<DoctorReport, "source">,
+  required: string[] = DEFAULT_REQUIRED_FIELDS
+): string {
+  const width = Math.max(...report.fields.map((f) => f.field.length), 0);
+  const lines = report.fields.map((f) => {
+    const mark = f.matched
+      ? "ok  "
+      : required.includes(f.field)
+      ? "FAIL"
+      : "--  ";
+    const detail = f.matched
+      ? `${f.matched}${f.value ? `  "${truncate(f.value, 40)}"` : ""}`
+      : `no match (tried ${f.tried.join(" | ")})`;
+    return `${mark} ${f.field.padEnd(width)}  ${detail}`;
+  });
+  if (report.error) lines.push(`Error: ${report.error}`);
+  lines.push(
+    report.ok
+      ? "All required fields found"
+      : `Missing required fields: ${report.missingRequired.join(", ")}`
+  );
+  return lines.join("\n");
+}
+
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ");
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
@@ -0,0 +1,181 @@
+// filename: errors.ts
+// Description: Typed errors so callers can tell "doesn't exist" from "rate limited" from "layout changed".
+
+export class MetacriticError extends Error {
+  constructor(message: string, public readonly url?: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * HTTP 404: the game (or page) doesn't exist on Metacritic, or a title search found nothing.
+ */
+export class NotFoundError extends MetacriticError {
+  readonly statusCode = 404;
+
+  constructor(url: string, message = `Not found: ${url}`) {
+    super(message, url);
+  }
+}
+
+/**
+ * HTTP 403: usually bot protection rejecting the request.
+ */
+export class ForbiddenError extends MetacriticError {
+  readonly statusCode = 403;
+
+  constructor(url: string) {
+    super(`Forbidden (HTTP 403) for ${url}`, url);
+  }
+}
+
+/**
+ * HTTP 429: slow down. `retryAfterMs` comes from the Retry-After header when sent.
+ */
+export class RateLimitedError extends MetacriticError {
+  readonly statusCode = 429;
+
+  constructor(url: string, public readonly retryAfterMs?: number) {
+    super(`Rate limited (HTTP 429) for ${url}`, url);
+  }
+}
+
+/**
+ * No response (or no complete body) within `timeoutMs`.
+ */
+export class TimeoutError extends MetacriticError {
+  constructor(url: string, public readonly timeoutMs?: number) {
+    super(
+      `Timed out${timeoutMs ? ` after ${timeoutMs}ms` : ""} for ${url}`,
+      url
+    );
+  }
+}
+
+/**
+ * Any other failed response (5xx, unexpected 4xx) or a dropped connection.
+ * `statusCode` is undefined for network-level failures.
+ */
+export class UpstreamError extends MetacriticError {
+  constructor(
+    url: string,
+    public readonly statusCode?: number,
+    public readonly retryAfterMs?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(
+      statusCode
+        ? `HTTP ${statusCode} for ${url}`
+        : `Request failed for ${url}${
+            options?.cause instanceof Error ? `: ${options.cause.message}` : ""
+          }`,
+      url
+    );
+    if (options?.cause !== undefined) this.cause = options.cause;
+  }
+}
+
+/**
+ * The response arrived but didn't have the expected shape, e.g. after a layout change.
+ */
+export class ParseError extends MetacriticError {
+  constructor(message: string, url?: string, public readonly field?: string) {
+    super(message, url);
+  }
+}
+
+/**
+ * The caller's AbortSignal fired before the request finished. Never retried.
+ */
+export class AbortedError extends MetacriticError {
+  constructor(url: string, options?: { cause?: unknown }) {
+    super(`Aborted: ${url}`, url);
+    if (options?.cause !== undefined) this.cause = options.cause;
+  }
+}
+
+/**
+ * robots.txt disallows the URL for our User-Agent, or couldn't be fetched (which disallows
+ * everything until it's retried). `rule` is the matching line, e.g. "Disallow: /search/". Never retried.
+ */
+export class RobotsDisallowedError extends MetacriticError {
+  constructor(
+    url: string,
+    public readonly rule?: string,
+    options?: { cause?: unknown }
+  ) {
+    super(
+      rule
+        ? `robots.txt disallows ${url} (${rule})`
+        : `robots.txt for ${url} could not be fetched, so crawling the host is disallowed`,
+      url
+    );
+    if (options?.cause !== undefined) this.cause = options.cause;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(
+  value: string | string[] | undefined,
+  now = Date.now()
+): number | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (!raw) return undefined;
+  const seconds = Number(raw.trim());
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Map a non-2xx response to its error class.
+ */
+export function errorForStatus(
+  statusCode: number,
+  url: string,
+  headers: Record<string, string | string[] | undefined> = {}
+): MetacriticError {
+  const retryAfterMs = parseRetryAfter(headers["retry-after"]);
+  if (statusCode === 404 || statusCode === 410) return new NotFoundError(url);
+  if (statusCode === 403) return new ForbiddenError(url);
+  if (statusCode === 429) return new RateLimitedError(url, retryAfterMs);
+  return new UpstreamError(url, statusCode, retryAfterMs);
+}
+
+const TIMEOUT_CODES = [
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "ETIMEDOUT",
+];
+const NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CLOSED",
+];
+
+/**
+ * Wrap transport-level failures (undici/socket errors) in the taxonomy.
+ * Anything unrecognized is returned unchanged.
+ */
+export function classifyTransportError(
+  err: unknown,
+  url: string,
+  timeoutMs?: number
+): unknown {
+  if (err instanceof MetacriticError) return err;
+  const code = (err as { code?: unknown } | undefined)?.code;
+  if (typeof code !== "string") return err;
+  if (TIMEOUT_CODES.includes(code)) return new TimeoutError(url, timeoutMs);
+  if (NETWORK_CODES.includes(code)) {
+    return new UpstreamError(url, undefined, undefined, { cause: err });
+  }
+  return err;
+}
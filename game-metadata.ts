@@ -0,0 +1,312 @@
+// filename: game-metadata.ts
+// Description: Catalogue metadata (credits, genres, rating, summary, cover, score distribution) from a game page.
+// Notes:
+// - Structured application/ld+json data wins when present; data-testid and legacy selectors fill the gaps.
+// - With a SelectorTrace, fields filled from JSON-LD are recorded as matched by "json-ld".
+
+import type { CheerioAPI } from "cheerio";
+import type {
+  GameRatings,
+  ScoreDistribution,
+} from "./metacritic-game-scraper.ts";
+import { selectFirst, type SelectorTrace } from "./selectors.ts";
+
+export type GameMetadata = Pick<
+  GameRatings,
+  | "developers"
+  | "publishers"
+  | "genres"
+  | "contentRating"
+  | "summary"
+  | "coverImageUrl"
+  | "criticDistribution"
+  | "userDistribution"
+>;
+
+/**
+ * A JSON-LD object; its properties stay unknown until narrowed.
+ */
+export type JsonLdNode = { [property: string]: unknown };
+
+function isJsonLdNode(value: unknown): value is JsonLdNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find the first node of one of `types` among the page's JSON-LD blocks.
+ */
+export function findJsonLdNode(
+  $: CheerioAPI,
+  types: string[]
+): JsonLdNode | undefined {
+  let node: JsonLdNode | undefined;
+  $('script[type="application/ld+json"]').each((_, el) => {
+    if (node) return;
+    try {
+      const parsed: unknown = JSON.parse($(el).text());
+      const graph = isJsonLdNode(parsed) ? parsed["@graph"] : undefined;
+      const nodes: unknown[] = Array.isArray(parsed)
+        ? parsed
+        : Array.isArray(graph)
+        ? graph
+        : [parsed];
+      node = nodes.filter(isJsonLdNode).find((n) => {
+        const type = n["@type"];
+        const nodeTypes: unknown[] = Array.isArray(type) ? type : [type];
+        return types.some((t) => nodeTypes.includes(t));
+      });
+    } catch (e) {
+      // Not valid JSON, skip
+    }
+  });
+  return node;
+}
+
+/**
+ * Names from a JSON-LD value that may be a string, an Organization/Person, or an array of either.
+ */
+export function ldNames(value: unknown): string[] {
+  const items: unknown[] = Array.isArray(value) ? value : value ? [value] : [];
+  return items
+    .map((v) => (isJsonLdNode(v) ? v.name : v))
+    .filter((v): v is string => typeof v === "string" && !!v.trim())
+    .map((v) => v.trim());
+}
+
+function ldImage(value: unknown): string | undefined {
+  const first: unknown = Array.isArray(value) ? value[0] : value;
+  if (typeof first === "string") return first;
+  return isJsonLdNode(first) && typeof first.url === "string"
+    ? first.url
+    : undefined;
+}
+
+/**
+ * Distinct non-empty texts of the elements matching `selector`, in document order.
+ */
+export function textList($: CheerioAPI, selector: string): string[] {
+  return Array.from(
+    new Set(
+      $(selector)
+        .map((_, el) => $(el).text().trim())
+        .get()
+        .filter((t) => !!t)
+    )
+  );
+}
+
+export function nonEmpty<T>(list: T[]): T[] | undefined {
+  return list.length > 0 ? list : undefined;
+}
+
+function parseCount(text: string): number | undefined {
+  const cleaned = text.replace(/[^\d]/g, "");
+  return cleaned ? Number(cleaned) : undefined;
+}
+
+/**
+ * Positive/mixed/negative counts for the critic or user score breakdown,
+ * traced as `criticDistribution` / `userDistribution`.
+ */
+function parseDistribution(
+  $: CheerioAPI,
+  kind: "critic" | "user",
+  trace?: SelectorTrace
+): ScoreDistribution | undefined {
+  const roots = [
+    `[data-testid="${kind}-score-distribution"]`,
+    `.${kind}_reviews_module .score_distribution`,
+  ];
+  for (const selector of roots) {
+    const root = $(selector).first();
+    if (root.length === 0) continue;
+
+    const count = (label: keyof ScoreDistribution) =>
+      parseCount(
+        root.find(`[data-testid="${label}-count"]`).first().text() ||
+          root.find(`li.${label} .count`).first().text()
+      );
+
+    const positive = count("positive");
+    const mixed = count("mixed");
+    const negative = count("negative");
+    if (
+      positive === undefined &&
+      mixed === undefined &&
+      negative === undefined
+    ) {
+      continue;
+    }
+    const distribution = {
+      positive: positive ?? 0,
+      mixed: mixed ?? 0,
+      negative: negative ?? 0,
+    };
+    trace?.record({
+      field: `${kind}Distribution`,
+      tried: roots,
+      matched: selector,
+      value: `${distribution.positive}/${distribution.mixed}/${distribution.negative}`,
+    });
+    return distribution;
+  }
+  trace?.record({ field: `${kind}Distribution`, tried: roots });
+  return undefined;
+}
+
+/**
+ * Comma-joined list selectors, recording the first one that found anything.
+ */
+function tracedList(
+  $: CheerioAPI,
+  field: string,
+  selectors: string[],
+  trace?: SelectorTrace
+): string[] {
+  const list = textList($, selectors.join(", "));
+  if (trace) {
+    const matched = selectors.find((s) => textList($, s).length > 0);
+    trace.record({
+      field,
+      tried: selectors,
+      matched,
+      value: matched ? list.join(", ") : undefined,
+    });
+  }
+  return list;
+}
+
+/**
+ * Catalogue fields that came from JSON-LD, so selectors were never consulted.
+ */
+function traceJsonLd(
+  trace: SelectorTrace | undefined,
+  field: string,
+  value: string | string[] | undefined
+): void {
+  if (value === undefined || value.length === 0) return;
+  trace?.record({
+    field,
+    tried: ["json-ld"],
+    matched: "json-ld",
+    value: Array.isArray(value) ? value.join(", ") : value,
+  });
+}
+
+/**
+ * Extract catalogue metadata from a loaded game page.
+ */
+export function extractGameMetadata(
+  $: CheerioAPI,
+  trace?: SelectorTrace
+): GameMetadata {
+  const ld = findJsonLdNode($, ["VideoGame", "Game"]);
+  const find = (selector: string) => $(selector);
+
+  const ldDevelopers = nonEmpty(
+    ldNames(ld?.developer ?? ld?.creator ?? ld?.author)
+  );
+  traceJsonLd(trace, "developers", ldDevelopers);
+  const developers =
+    ldDevelopers ??
+    nonEmpty(
+      tracedList(
+        $,
+        "developers",
+        [
+          '[data-testid="details-developer"] li',
+          '[data-testid="details-developer"] a',
+          "li.developer .data",
+        ],
+        trace
+      )
+    );
+
+  const ldPublishers = nonEmpty(ldNames(ld?.publisher));
+  traceJsonLd(trace, "publishers", ldPublishers);
+  const publishers =
+    ldPublishers ??
+    nonEmpty(
+      tracedList(
+        $,
+        "publishers",
+        [
+          '[data-testid="details-publisher"] li',
+          '[data-testid="details-publisher"] a',
+          "li.publisher .data a",
+        ],
+        trace
+      )
+    );
+
+  const ldGenres = nonEmpty(ldNames(ld?.genre));
+  traceJsonLd(trace, "genres", ldGenres);
+  const genres =
+    ldGenres ??
+    nonEmpty(
+      tracedList(
+        $,
+        "genres",
+        [
+          '[data-testid="details-genres"] li',
+          '[data-testid="product-genre"]',
+          "li.product_genre .data",
+        ],
+        trace
+      )
+    );
+
+  const ldContentRating = ldNames(ld?.contentRating)[0];
+  traceJsonLd(trace, "contentRating", ldContentRating || undefined);
+  const contentRating =
+    ldContentRating ||
+    selectFirst(
+      find,
+      "contentRating",
+      ['[data-testid="details-rating"]', "li.product_rating .data"],
+      trace
+    );
+
+  const ldSummary =
+    typeof ld?.description === "string" ? ld.description.trim() : "";
+  traceJsonLd(trace, "summary", ldSummary || undefined);
+  const summary =
+    ldSummary ||
+    selectFirst(
+      find,
+      "summary",
+      [
+        '[data-testid="product-description"]',
+        ".product_summary .blurb_expanded",
+        ".product_summary .data",
+        { selector: 'meta[name="description"]', attr: "content" },
+      ],
+      trace
+    );
+
+  const ldCover = ldImage(ld?.image);
+  traceJsonLd(trace, "coverImageUrl", ldCover);
+  const coverImageUrl =
+    ldCover ||
+    selectFirst(
+      find,
+      "coverImageUrl",
+      [
+        { selector: '[data-testid="product-image"] img', attr: "src" },
+        { selector: "img.product_image", attr: "src" },
+        { selector: 'meta[property="og:image"]', attr: "content" },
+      ],
+      trace
+    );
+
+  return {
+    developers,
+    publishers,
+    genres,
+    contentRating: contentRating || undefined,
+    summary: summary || undefined,
+    coverImageUrl: coverImageUrl || undefined,
+    criticDistribution: parseDistribution($, "critic", trace),
+    userDistribution: parseDistribution($, "user", trace),
+  };
+}
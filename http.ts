@@ -0,0 +1,244 @@
+// filename: http.ts
+// Description: The shared request pipeline: cache -> retries -> robots.txt -> per-host scheduler -> transport.
+
+import {
+  AbortedError,
+  classifyTransportError,
+  errorForStatus,
+} from "./errors.ts";
+import type { ScrapeOptions } from "./metacritic-game-scraper.ts";
+import {
+  checkRobotsTxt,
+  DEFAULT_USER_AGENT,
+  identityHeaders,
+} from "./politeness.ts";
+import { scheduleRequest } from "./request-scheduler.ts";
+import { cachedFetch, type ResourceKind } from "./response-cache.ts";
+import { withRetry } from "./retry.ts";
+import {
+  undiciTransport,
+  writeFixture,
+  type TransportResponse,
+} from "./transport.ts";
+
+export const DEFAULT_HEADERS = {
+  "User-Agent": DEFAULT_USER_AGENT,
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+  "Cache-Control": "no-cache",
+};
+
+export const SITE_BASE_URL = "https://www.metacritic.com";
+export const BACKEND_BASE_URL = "https://backend.metacritic.com";
+
+export interface BaseUrls {
+  site?: string; // default https://www.metacritic.com
+  backend?: string; // default https://backend.metacritic.com
+}
+
+export interface RequestEvent {
+  url: string; // After base URL rewriting
+  kind: ResourceKind;
+  attempt: number; // 1-based; above 1 for retries
+}
+
+export interface ResponseEvent extends RequestEvent {
+  statusCode: number;
+  durationMs: number;
+  bytes: number;
+}
+
+/**
+ * One fetchText call from start to finish: cache hits, retries and failures included.
+ */
+export interface RequestMetric {
+  url: string; // After base URL rewriting
+  kind: ResourceKind;
+  path: "api" | "html"; // Backend JSON API or a site page
+  cacheHit: boolean; // Answered without a request of its own: from the cache, or shared with an identical one in flight
+  attempts: number; // Network attempts; 0 for cache hits
+  status?: number; // Last response's status; unset for cache hits and transport failures
+  latencyMs: number; // Including queueing and retry delays
+  bytes: number; // Body size; 0 on failure
+  error?: string; // Error class name, when the fetch failed
+}
+
+/**
+ * Point a Metacritic URL at the configured base URLs, e.g. a local mock server.
+ * Results keep the canonical metacritic.com URLs; only the request goes elsewhere.
+ */
+export function resolveBaseUrl(url: string, baseUrls?: BaseUrls): string {
+  for (const [canonical, base] of [
+    [SITE_BASE_URL, baseUrls?.site],
+    [BACKEND_BASE_URL, baseUrls?.backend],
+  ] as const) {
+    if (base && url.startsWith(canonical)) {
+      return base.replace(/\/+$/, "") + url.slice(canonical.length);
+    }
+  }
+  return url;
+}
+
+/**
+ * Save a response under `opts.debugDumpDir`, if set. A failed write is reported
+ * as a `dump-failed` diagnostic and never fails the fetch.
+ */
+async function dumpFixture(
+  opts: ScrapeOptions,
+  url: string,
+  res: TransportResponse
+): Promise<void> {
+  if (!opts.debugDumpDir) return;
+  try {
+    await writeFixture(opts.debugDumpDir, url, res);
+  } catch (error) {
+    opts.onDiagnostic?.({
+      type: "dump-failed",
+      url,
+      dir: opts.debugDumpDir,
+      error,
+    });
+  }
+}
+
+/**
+ * Fetch a URL through the cache, retries, scheduler and transport.
+ * Only 2xx bodies are returned (and cached); failures throw the typed errors from errors.ts.
+ * Aborting `opts.signal` rejects with AbortedError, whether the request is queued, in flight or waiting to retry.
+ * Identical concurrent calls share one request, which is cancelled only once every one of them has aborted.
+ * URLs robots.txt disallows reject with RobotsDisallowedError before any request is made.
+ * Every call ends with one `opts.onMetric` report; `opts.debugDumpDir` saves each body as a replay fixture.
+ */
+export async function fetchText(
+  canonicalUrl: string,
+  opts: ScrapeOptions,
+  kind: ResourceKind,
+  headers: Record<string, string> = DEFAULT_HEADERS
+): Promise<string> {
+  const url = resolveBaseUrl(canonicalUrl, opts.baseUrls);
+  const timeoutMs = opts.timeoutMs ?? 15000;
+  const transport = opts.transport ?? undiciTransport;
+  const requestHeaders = {
+    ...headers,
+    ...identityHeaders(opts),
+    ...opts.headers,
+  };
+  const signal = opts.signal;
+  if (signal?.aborted) throw new AbortedError(url, { cause: signal.reason });
+  // Only live transports are checked by default; replays and stubs opt in
+  const robotsTxt = opts.robotsTxt ?? transport.live !== false;
+
+  const startedAt = Date.now();
+  let attempts = 0;
+  let lastStatus: number | undefined;
+  // Each attempt passes robots.txt (cached per origin) and waits for its own scheduler slot.
+  // `fetchSignal` belongs to the fetch shared by every identical in-flight call, not to this caller
+  const attempt = async (fetchSignal: AbortSignal) => {
+    if (robotsTxt) await checkRobotsTxt(url, { ...opts, signal: fetchSignal });
+    return scheduleRequest(url, opts, async () => {
+      // Aborted while queued behind other requests
+      if (fetchSignal.aborted) {
+        throw new AbortedError(url, { cause: fetchSignal.reason });
+      }
+      const event: RequestEvent = { url, kind, attempt: ++attempts };
+      opts.onRequest?.(event);
+      const sentAt = Date.now();
+
+      let res;
+      try {
+        res = await transport.request({
+          url,
+          headers: requestHeaders,
+          timeoutMs,
+          signal: fetchSignal,
+        });
+      } catch (err) {
+        const error = fetchSignal.aborted
+          ? new AbortedError(url, { cause: err })
+          : classifyTransportError(err, url, timeoutMs);
+        opts.onError?.(error, event);
+        throw error;
+      }
+      lastStatus = res.statusCode;
+      opts.onResponse?.({
+        ...event,
+        statusCode: res.statusCode,
+        durationMs: Date.now() - sentAt,
+        bytes: Buffer.byteLength(res.body),
+      });
+      // Error pages too: a replay of the dump should take the same fallbacks
+      await dumpFixture(opts, url, res);
+      if (res.statusCode >= 400) {
+        const error = errorForStatus(res.statusCode, url, res.headers);
+        opts.onError?.(error, event);
+        throw error;
+      }
+      return res.body;
+    });
+  };
+
+  const report = (bytes: number, error?: unknown) =>
+    opts.onMetric?.({
+      url,
+      kind,
+      path: canonicalUrl.startsWith(BACKEND_BASE_URL) ? "api" : "html",
+      cacheHit: attempts === 0 && error === undefined,
+      attempts,
+      status: lastStatus,
+      latencyMs: Date.now() - startedAt,
+      bytes,
+      error:
+        error === undefined
+          ? undefined
+          : error instanceof Error
+          ? error.name
+          : String(error),
+    });
+
+  try {
+    const body = await cachedFetch(
+      url,
+      kind,
+      opts.cache,
+      (fetchSignal) =>
+        opts.retry === false
+          ? attempt(fetchSignal)
+          : withRetry(
+              () => attempt(fetchSignal),
+              opts.retry,
+              (error, n, delayMs) =>
+                opts.onDiagnostic?.({
+                  type: "retry",
+                  url,
+                  attempt: n,
+                  delayMs,
+                  error,
+                }),
+              fetchSignal
+            ),
+      signal
+    );
+    if (attempts === 0) {
+      // Served from the cache, so there are no response headers to keep
+      await dumpFixture(opts, url, {
+        statusCode: 200,
+        headers: {
+          "content-type": /^\s*[[{]/.test(body)
+            ? "application/json"
+            : "text/html",
+        },
+        body,
+      });
+    }
+    report(Buffer.byteLength(body));
+    return body;
+  } catch (err) {
+    // e.g. the retry delay's own AbortError
+    const error =
+      signal?.aborted && !(err instanceof AbortedError)
+        ? new AbortedError(url, { cause: err })
+        : err;
+    report(0, error);
+    throw error;
+  }
+}
@@ -1 +1,324 @@
-console.log("Hello via Bun!");
\ No newline at end of file
+// filename: index.ts
+// Description: Library entry point: the MetacriticClient class plus every result, option and error type.
+// Usage:
+//   import { MetacriticClient } from "metacritic-scraper";
+//   const client = new MetacriticClient({ timeoutMs: 5000, onError: (err) => log(err) });
+//   const [game] = await client.findGame("DOOM", { signal: req.signal });
+// Notes:
+// - Importing this module never starts the CLI; that lives behind import.meta.main in metacritic-game-scraper.ts.
+// - Client config is the default for every call; per-call options override it field by field.
+//   `headers` and `baseUrls` are merged, and either the client's or the call's `signal` aborts the call.
+
+import {
+  browseGames,
+  iterateBrowse,
+  type BrowseFilters,
+  type BrowsePage,
+  type BrowseResult,
+} from "./browse.ts";
+import {
+  compareGames,
+  type CompareOptions,
+  type CompareRow,
+} from "./compare.ts";
+import { runDoctor, type DoctorReport } from "./doctor.ts";
+import {
+  getMediaDetails,
+  searchMedia,
+  type MediaDetails,
+  type MediaSearchResult,
+  type MediaType,
+} from "./media.ts";
+import {
+  getGameDetails,
+  getGameRatingsAndReviewsByName,
+  getReviews,
+  iterateReviews,
+  scrapePlatformScores,
+  searchGamesByName,
+  type GameRatings,
+  type PlatformScore,
+  type Review,
+  type ReviewFilters,
+  type ScrapeOptions,
+  type SearchResult,
+} from "./metacritic-game-scraper.ts";
+import type { Platform } from "./platforms.ts";
+import {
+  getPublicationProfile,
+  iteratePublicationReviews,
+  type PublicationOptions,
+  type PublicationProfile,
+  type PublicationReview,
+} from "./publications.ts";
+import {
+  getReleaseCalendar,
+  type ReleaseCalendarOptions,
+  type ReleaseEvent,
+} from "./releases.ts";
+
+// Per-search settings that make no sense as client-wide defaults
+export type MetacriticClientConfig = Omit<
+  ScrapeOptions,
+  "offset" | "platform" | "releaseYear" | "matchMode"
+>;
+
+export class MetacriticClient {
+  constructor(readonly config: MetacriticClientConfig = {}) {}
+
+  /**
+   * Client config overlaid with one call's options; both signals abort the call.
+   */
+  private options(call: ScrapeOptions = {}): ScrapeOptions {
+    const signals = [this.config.signal, call.signal].filter(
+      (s): s is AbortSignal => s !== undefined
+    );
+    return {
+      ...this.config,
+      ...call,
+      headers:
+        this.config.headers || call.headers
+          ? { ...this.config.headers, ...call.headers }
+          : undefined,
+      baseUrls:
+        this.config.baseUrls || call.baseUrls
+          ? { ...this.config.baseUrls, ...call.baseUrls }
+          : undefined,
+      signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+    };
+  }
+
+  /** Search games by title, best match first. */
+  search(query: string, opts?: ScrapeOptions): Promise<SearchResult[]> {
+    return searchGamesByName(query, this.options(opts));
+  }
+
+  /** Search for a game and return ratings (and reviews, if asked for) of the best matches. */
+  findGame(query: string, opts?: ScrapeOptions): Promise<GameRatings[]> {
+    return getGameRatingsAndReviewsByName(query, this.options(opts));
+  }
+
+  /** Full details for a game slug or URL: backend API first, game page for the gaps. */
+  getGame(slugOrUrl: string, opts?: ScrapeOptions): Promise<GameRatings> {
+    return getGameDetails(slugOrUrl, this.options(opts));
+  }
+
+  getPlatformScores(
+    slug: string,
+    platforms: Platform[],
+    opts?: ScrapeOptions
+  ): Promise<Partial<Record<Platform, PlatformScore>>> {
+    return scrapePlatformScores(slug, platforms, this.options(opts));
+  }
+
+  getReviews(
+    slugOrUrl: string,
+    filters?: ReviewFilters,
+    opts?: ScrapeOptions
+  ): Promise<Review[]> {
+    return getReviews(slugOrUrl, filters, this.options(opts));
+  }
+
+  iterateReviews(
+    slugOrUrl: string,
+    filters?: ReviewFilters,
+    opts?: ScrapeOptions
+  ): AsyncGenerator<Review> {
+    return iterateReviews(slugOrUrl, filters, this.options(opts));
+  }
+
+  browse(filters?: BrowseFilters, opts?: ScrapeOptions): Promise<BrowsePage> {
+    return browseGames(filters, this.options(opts));
+  }
+
+  iterateBrowse(
+    filters?: BrowseFilters,
+    maxResults?: number,
+    opts?: ScrapeOptions
+  ): AsyncGenerator<BrowseResult> {
+    return iterateBrowse(filters, this.options(opts), maxResults);
+  }
+
+  /** Upcoming and new releases in a date window; pass the last result as `previous` to revise it. */
+  getReleases(
+    options?: ReleaseCalendarOptions,
+    opts?: ScrapeOptions
+  ): Promise<ReleaseEvent[]> {
+    return getReleaseCalendar(options, this.options(opts));
+  }
+
+  searchMedia(
+    query: string,
+    mediaType?: MediaType,
+    opts?: ScrapeOptions
+  ): Promise<MediaSearchResult[]> {
+    return searchMedia(query, mediaType, this.options(opts));
+  }
+
+  getMediaDetails(
+    slugOrUrl: string,
+    mediaType?: MediaType,
+    opts?: ScrapeOptions
+  ): Promise<MediaDetails> {
+    return getMediaDetails(slugOrUrl, mediaType, this.options(opts));
+  }
+
+  getPublication(
+    nameOrSlug: string,
+    options?: PublicationOptions,
+    opts?: ScrapeOptions
+  ): Promise<PublicationProfile> {
+    return getPublicationProfile(nameOrSlug, options, this.options(opts));
+  }
+
+  iteratePublicationReviews(
+    nameOrSlug: string,
+    options?: PublicationOptions,
+    opts?: ScrapeOptions
+  ): AsyncGenerator<PublicationReview> {
+    return iteratePublicationReviews(nameOrSlug, options, this.options(opts));
+  }
+
+  compare(
+    inputs: string[],
+    options?: Omit<CompareOptions, "scrape">,
+    opts?: ScrapeOptions
+  ): Promise<CompareRow[]> {
+    return compareGames(inputs, { ...options, scrape: this.options(opts) });
+  }
+
+  /** Check a game page URL or saved HTML file against every selector chain. */
+  diagnose(
+    target: string,
+    required?: string[],
+    opts?: ScrapeOptions
+  ): Promise<DoctorReport> {
+    return runDoctor(target, this.options(opts), required);
+  }
+}
+
+export * from "./errors.ts";
+export {
+  FileCacheStore,
+  MemoryCacheStore,
+  type CacheOptions,
+  type CacheStore,
+  type ResourceKind,
+} from "./response-cache.ts";
+export {
+  RecordingTransport,
+  ReplayTransport,
+  undiciTransport,
+  type Transport,
+  type TransportRequest,
+  type TransportResponse,
+} from "./transport.ts";
+export {
+  DEFAULT_HEADERS,
+  type BaseUrls,
+  type RequestEvent,
+  type RequestMetric,
+  type ResponseEvent,
+} from "./http.ts";
+export {
+  createJsonLogger,
+  LOG_LEVELS,
+  type JsonLoggerOptions,
+  type LogFields,
+  type Logger,
+  type LogLevel,
+} from "./logger.ts";
+export {
+  instrument,
+  MetricsCollector,
+  type InstrumentOptions,
+  type LatencySummary,
+  type MetricsSummary,
+} from "./metrics.ts";
+export type { RetryOptions } from "./retry.ts";
+export {
+  DEFAULT_USER_AGENT,
+  clearRobotsCache,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  type RobotsGroup,
+  type RobotsRule,
+  type RobotsTxt,
+} from "./politeness.ts";
+export {
+  PLATFORMS,
+  normalizePlatform,
+  platformName,
+  type Platform,
+  type PlatformInfo,
+} from "./platforms.ts";
+export type { DatePrecision, NormalizedDate } from "./dates.ts";
+export type { FieldTrace } from "./selectors.ts";
+export type {
+  DiagnosticEvent,
+  FieldSource,
+  GameRatings,
+  HintMatch,
+  PlatformScore,
+  ReleaseYearHint,
+  Review,
+  ReviewFilters,
+  ReviewSentiment,
+  ScoreDistribution,
+  ScrapeOptions,
+  SearchResult,
+} from "./metacritic-game-scraper.ts";
+export type { GameMetadata } from "./game-metadata.ts";
+export type {
+  BrowseFilters,
+  BrowsePage,
+  BrowseReleaseType,
+  BrowseResult,
+  BrowseSort,
+} from "./browse.ts";
+export {
+  formatReleaseFeed,
+  mergeReleaseEvents,
+  RELEASE_FEED_FORMATS,
+  toICalendar,
+  toJsonFeed,
+  toRss,
+  type ReleaseCalendarOptions,
+  type ReleaseEvent,
+  type ReleaseFeedFormat,
+  type ReleaseFeedOptions,
+  type ReleaseListing,
+  type ReleaseStatus,
+} from "./releases.ts";
+export type {
+  FilmographyCredit,
+  MediaDetails,
+  MediaSearchResult,
+  MediaType,
+  MovieDetails,
+  PersonDetails,
+  TitleDetails,
+  TvSeason,
+  TvShowDetails,
+} from "./media.ts";
+export type {
+  PublicationOptions,
+  PublicationProfile,
+  PublicationReview,
+  PublicationStats,
+} from "./publications.ts";
+export type {
+  CompareFormat,
+  CompareOptions,
+  CompareRow,
+  DivergenceFlag,
+} from "./compare.ts";
+export type { DoctorReport } from "./doctor.ts";
+export type {
+  HistoryQuery,
+  ScoreChange,
+  Snapshot,
+  SnapshotDiff,
+  SnapshotStore,
+} from "./snapshots.ts";
+export type { BatchEntry, BatchRow, BatchSummary } from "./batch.ts";
@@ -0,0 +1,64 @@
+// filename: logger.ts
+// Description: Structured logging with levels, written as one JSON object per line.
+// Usage:
+//   const logger = createJsonLogger({ level: "debug" });
+//   logger.warn("search-fallback", { query: "Doom", reason: "HTTP 500" });
+//   // {"time":"2025-06-01T12:00:00.000Z","level":"warn","msg":"search-fallback","query":"Doom","reason":"HTTP 500"}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export const LOG_LEVELS: readonly LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+}
+
+export interface JsonLoggerOptions {
+  level?: LogLevel; // default "info" - anything below it is dropped
+  write?: (line: string) => void; // Receives each line with its newline; default stderr
+  now?: () => Date;
+}
+
+// Errors stringify to {} by default
+function serializable(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
+
+/**
+ * A Logger writing `{"time", "level", "msg", ...fields}` lines.
+ */
+export function createJsonLogger(options: JsonLoggerOptions = {}): Logger {
+  const threshold = LOG_LEVELS.indexOf(options.level ?? "info");
+  const write =
+    options.write ?? ((line: string) => void process.stderr.write(line));
+  const now = options.now ?? (() => new Date());
+
+  const log = (level: LogLevel) => (msg: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < threshold) return;
+    write(
+      JSON.stringify(
+        { time: now().toISOString(), level, msg, ...fields },
+        serializable
+      ) + "\n"
+    );
+  };
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
@@ -0,0 +1,344 @@
+// filename: media-pages.ts
+// Description: Parsers for Metacritic movie, TV show and person pages.
+// Notes:
+// - Movie and show pages share the product layout of game pages, so the score selectors match scrapeGamePage's.
+// - JSON-LD (Movie, TVSeries, Person) wins when present, as in game-metadata.ts.
+
+import { load as loadHTML, type CheerioAPI } from "cheerio";
+import { normalizeDate } from "./dates.ts";
+import { ParseError } from "./errors.ts";
+import {
+  findJsonLdNode,
+  ldNames,
+  nonEmpty,
+  textList,
+  type JsonLdNode,
+} from "./game-metadata.ts";
+import type {
+  FilmographyCredit,
+  MediaType,
+  MovieDetails,
+  PersonDetails,
+  TitleDetails,
+  TvSeason,
+  TvShowDetails,
+} from "./media.ts";
+import { parseNumber } from "./metacritic-game-scraper.ts";
+import { selectFirst, type SelectorTrace } from "./selectors.ts";
+
+function slugFromUrl(url: string): string {
+  const m = url.match(/\/(?:movie|tv|person)\/([^/?#]+)/);
+  return m?.[1] ?? url.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Minutes from "1 h 52 m", "112 min" or an ISO 8601 duration ("PT1H52M").
+ */
+export function parseRuntime(text?: string): number | undefined {
+  if (!text) return undefined;
+  const iso = text.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/i);
+  if (iso && (iso[1] || iso[2])) {
+    return Number(iso[1] ?? 0) * 60 + Number(iso[2] ?? 0);
+  }
+  const hours = text.match(/(\d+)\s*h/i);
+  const minutes = text.match(/(\d+)\s*m/i);
+  if (hours || minutes) {
+    return Number(hours?.[1] ?? 0) * 60 + Number(minutes?.[1] ?? 0);
+  }
+  return parseNumber(text);
+}
+
+/**
+ * Name, scores, release date and catalogue fields shared by movie and show pages.
+ */
+function parseTitleFields(
+  $: CheerioAPI,
+  url: string,
+  ld: JsonLdNode | undefined,
+  trace?: SelectorTrace
+): TitleDetails {
+  const find = (selector: string) => $(selector);
+
+  const name = selectFirst(
+    find,
+    "name",
+    [
+      'h1[data-testid="product-title"]',
+      "h1.product_title",
+      { selector: 'meta[property="og:title"]', attr: "content" },
+    ],
+    trace
+  );
+  if (!name) {
+    throw new ParseError("No product title found on page", url, "name");
+  }
+
+  const releaseDate = selectFirst(
+    find,
+    "releaseDate",
+    [
+      '[data-testid="product-release-date"]',
+      "li.release_data .data",
+      "span.release_date span:last-child",
+    ],
+    trace
+  );
+
+  const contentRating =
+    (typeof ld?.contentRating === "string" ? ld.contentRating.trim() : "") ||
+    selectFirst(
+      find,
+      "contentRating",
+      ['[data-testid="details-rating"]', "li.rating .data"],
+      trace
+    );
+
+  const summary =
+    (typeof ld?.description === "string" ? ld.description.trim() : "") ||
+    selectFirst(
+      find,
+      "summary",
+      [
+        '[data-testid="product-description"]',
+        ".summary_deck .blurb_expanded",
+        { selector: 'meta[name="description"]', attr: "content" },
+      ],
+      trace
+    );
+
+  return {
+    name,
+    slug: slugFromUrl(url),
+    url,
+    metascore: parseNumber(
+      selectFirst(
+        find,
+        "metascore",
+        ['[data-testid="metascore-wrapped"]', "div.metascore_w > span"],
+        trace
+      )
+    ),
+    userscore: parseNumber(
+      selectFirst(
+        find,
+        "userscore",
+        ['[data-testid="userscore-wrapped"]', "div.userscore_w"],
+        trace
+      )
+    ),
+    criticReviewsCount: parseNumber(
+      selectFirst(
+        find,
+        "criticReviewsCount",
+        [
+          '[data-testid="critic-reviews-count"]',
+          "a.metascore_anchor span.count",
+        ],
+        trace
+      )
+    ),
+    userRatingsCount: parseNumber(
+      selectFirst(
+        find,
+        "userRatingsCount",
+        ['[data-testid="user-reviews-count"]', "a.userscore_anchor span.count"],
+        trace
+      )
+    ),
+    releaseDate: releaseDate || undefined,
+    releaseDateNormalized: normalizeDate(releaseDate),
+    genres:
+      nonEmpty(ldNames(ld?.genre)) ??
+      nonEmpty(
+        textList($, '[data-testid="details-genres"] li, li.genres .data')
+      ),
+    contentRating: contentRating || undefined,
+    summary: summary || undefined,
+  };
+}
+
+/**
+ * Parse a movie page (https://www.metacritic.com/movie/<slug>/).
+ */
+export function parseMoviePage(
+  html: string,
+  url: string,
+  trace?: SelectorTrace
+): MovieDetails {
+  const $ = loadHTML(html);
+  const ld = findJsonLdNode($, ["Movie"]);
+
+  const runtimeText =
+    (typeof ld?.duration === "string" ? ld.duration : "") ||
+    selectFirst(
+      (selector) => $(selector),
+      "runtime",
+      ['[data-testid="details-duration"]', "li.runtime .data"],
+      trace
+    );
+
+  return {
+    mediaType: "movie",
+    ...parseTitleFields($, url, ld, trace),
+    runtimeMinutes: parseRuntime(runtimeText),
+    directors:
+      nonEmpty(ldNames(ld?.director)) ??
+      nonEmpty(
+        textList($, '[data-testid="details-director"] a, li.director a')
+      ),
+  };
+}
+
+/**
+ * Parse a TV show page (https://www.metacritic.com/tv/<slug>/), including its season list.
+ */
+export function parseTvPage(
+  html: string,
+  url: string,
+  trace?: SelectorTrace
+): TvShowDetails {
+  const $ = loadHTML(html);
+  const ld = findJsonLdNode($, ["TVSeries"]);
+  const details = parseTitleFields($, url, ld, trace);
+
+  const seasons: TvSeason[] = [];
+  const seen = new Set<number>();
+  $('[data-testid="season-card"], .c-seasonsModalCard, .seasons_list li').each(
+    (_, el) => {
+      const $card = $(el);
+      const href = $card.is("a[href]")
+        ? $card.attr("href")
+        : $card.find('a[href*="/season-"]').first().attr("href");
+      const number = Number(href?.match(/\/season-(\d+)/)?.[1]);
+      if (!href || !number || seen.has(number)) return;
+      seen.add(number);
+
+      const scoreText = $card
+        .find(
+          '[data-testid="season-metascore"], .c-siteReviewScore, .metascore_w'
+        )
+        .first()
+        .text()
+        .trim();
+      const yearText = $card
+        .find('[data-testid="season-year"], .c-seasonsModalCard_details')
+        .first()
+        .text();
+      const year = yearText.match(/\b(19\d\d|20\d\d)\b/)?.[1];
+
+      seasons.push({
+        number,
+        name:
+          $card
+            .find('[data-testid="season-title"], .c-seasonsModalCard_title')
+            .first()
+            .text()
+            .trim() || `Season ${number}`,
+        url: `https://www.metacritic.com/tv/${details.slug}/season-${number}/`,
+        metascore: /^\d+$/.test(scoreText) ? Number(scoreText) : undefined,
+        criticReviewsCount: parseNumber(
+          $card
+            .find('[data-testid="season-reviews-count"]')
+            .first()
+            .text()
+            .match(/\d[\d,]*/)?.[0]
+        ),
+        releaseYear: year ? Number(year) : undefined,
+      });
+    }
+  );
+  seasons.sort((a, b) => a.number - b.number);
+
+  return {
+    mediaType: "tv",
+    ...details,
+    creators:
+      nonEmpty(ldNames(ld?.creator)) ??
+      nonEmpty(textList($, '[data-testid="details-creator"] a, li.creator a')),
+    seasons,
+  };
+}
+
+/**
+ * Parse a person page (https://www.metacritic.com/person/<slug>/) and its credits table.
+ */
+export function parsePersonPage(
+  html: string,
+  url: string,
+  trace?: SelectorTrace
+): PersonDetails {
+  const $ = loadHTML(html);
+  const ld = findJsonLdNode($, ["Person"]);
+
+  const name =
+    (typeof ld?.name === "string" ? ld.name.trim() : "") ||
+    selectFirst(
+      (selector) => $(selector),
+      "name",
+      [
+        'h1[data-testid="person-name"]',
+        "h1",
+        { selector: 'meta[property="og:title"]', attr: "content" },
+      ],
+      trace
+    );
+  if (!name) {
+    throw new ParseError("No name found on person page", url, "name");
+  }
+
+  const filmography: FilmographyCredit[] = [];
+  $(
+    '[data-testid="filmography"] tr, .c-globalPersonCreditsTable tbody tr, table.credits tr'
+  ).each((_, el) => {
+    const $row = $(el);
+    const $link = $row
+      .find('a[href^="/movie/"], a[href^="/tv/"], a[href^="/game/"]')
+      .first();
+    const m = $link
+      .attr("href")
+      ?.match(/^\/(movie|tv|game)\/(?:[^/]+\/)*?([^/?#]+)\/?$/);
+    if (!m?.[1] || !m[2]) return;
+    const mediaType = m[1] as MediaType;
+
+    const scoreText = $row
+      .find(
+        '[data-testid="credit-metascore"], .c-siteReviewScore, .metascore_w'
+      )
+      .first()
+      .text()
+      .trim();
+    const yearText = $row
+      .find('[data-testid="credit-year"], td.year')
+      .first()
+      .text()
+      .trim();
+    const role = $row
+      .find('[data-testid="credit-role"], td.role')
+      .first()
+      .text()
+      .trim();
+
+    filmography.push({
+      mediaType,
+      name: $link.text().trim() || m[2],
+      slug: m[2],
+      url: `https://www.metacritic.com${$link.attr("href")}`,
+      year: /^\d{4}$/.test(yearText) ? Number(yearText) : undefined,
+      role: role || undefined,
+      metascore: /^\d+$/.test(scoreText) ? Number(scoreText) : undefined,
+    });
+  });
+
+  const bio =
+    (typeof ld?.description === "string" ? ld.description.trim() : "") ||
+    $('[data-testid="person-bio"], .biography').first().text().trim();
+
+  return {
+    mediaType: "person",
+    name,
+    slug: slugFromUrl(url),
+    url,
+    bio: bio || undefined,
+    filmography,
+  };
+}
@@ -0,0 +1,267 @@
+// filename: media.ts
+// Description: Search and detail lookups for Metacritic's other media types: movies, TV shows and people.
+// Usage:
+//   bun metacritic-game-scraper.ts "Dune" --type=movie
+//   bun metacritic-game-scraper.ts "Severance" --type=tv
+// Notes:
+// - Games stay on the game-specific path (searchGamesByName / getGameDetails); "game" is the default type everywhere.
+// - The finder API tells the types apart by mcoTypeId; the site by the first URL segment (/movie/, /tv/, /person/).
+
+import { load as loadHTML } from "cheerio";
+import {
+  MCO_TYPE_IDS,
+  parseFinderItem,
+  searchFinder,
+  type FinderItem,
+} from "./backend-client.ts";
+import { fetchText } from "./http.ts";
+import {
+  getGameDetails,
+  searchGamesByName,
+  type GameRatings,
+  type ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+import { parseMoviePage, parsePersonPage, parseTvPage } from "./media-pages.ts";
+import type { NormalizedDate } from "./dates.ts";
+import { titleSimilarity } from "./title-match.ts";
+
+export type MediaType = "game" | "movie" | "tv" | "person";
+
+export { MCO_TYPE_IDS };
+
+export function isMediaType(value: unknown): value is MediaType {
+  return typeof value === "string" && Object.hasOwn(MCO_TYPE_IDS, value);
+}
+
+/**
+ * Page URL for a movie, show or person slug. Games need a platform; use buildGameUrl.
+ */
+export function buildMediaUrl(
+  mediaType: Exclude<MediaType, "game">,
+  slug: string
+): string {
+  return `https://www.metacritic.com/${mediaType}/${slug}/`;
+}
+
+/**
+ * Media type and slug from a Metacritic URL, or undefined when it isn't one.
+ */
+export function parseMediaUrl(
+  url: string
+): { mediaType: MediaType; slug: string } | undefined {
+  const m = url.match(/\/(game|movie|tv|person)\/([^/?#]+)(?:\/([^/?#]+))?/);
+  if (!m?.[1] || !m[2]) return undefined;
+  const mediaType = m[1] as MediaType;
+  // Only game URLs carry a segment before the slug (/game/<platform>/<slug>/)
+  const slug =
+    mediaType === "game" &&
+    m[3] &&
+    !["critic-reviews", "user-reviews", "reviews"].includes(m[3])
+      ? m[3]
+      : m[2];
+  return { mediaType, slug };
+}
+
+export interface MediaSearchResult {
+  mediaType: MediaType;
+  name: string;
+  slug: string;
+  url: string;
+  metascore?: number; // Unset for people
+  releaseYear?: number; // Premiere year for movies and shows
+  matchScore: number; // 0–1 title similarity to the query (1 = exact)
+  source: "api" | "html"; // Finder API or HTML search fallback
+}
+
+/**
+ * Fields every scored title (movie or show) page has.
+ */
+export interface TitleDetails {
+  name: string;
+  slug: string;
+  url: string;
+  metascore?: number; // 0–100
+  userscore?: number; // 0–10
+  criticReviewsCount?: number;
+  userRatingsCount?: number;
+  releaseDate?: string; // As shown on the page
+  releaseDateNormalized?: NormalizedDate;
+  genres?: string[];
+  contentRating?: string; // e.g. "PG-13" or "TV-MA"
+  summary?: string;
+}
+
+export interface MovieDetails extends TitleDetails {
+  mediaType: "movie";
+  runtimeMinutes?: number;
+  directors?: string[];
+}
+
+export interface TvSeason {
+  number: number; // 1-based
+  name: string; // e.g. "Season 2"
+  url: string;
+  metascore?: number; // Unset until enough critics have reviewed the season
+  criticReviewsCount?: number;
+  releaseYear?: number;
+}
+
+export interface TvShowDetails extends TitleDetails {
+  mediaType: "tv";
+  creators?: string[];
+  seasons: TvSeason[]; // In season order
+}
+
+export interface FilmographyCredit {
+  mediaType: MediaType;
+  name: string;
+  slug: string;
+  url: string;
+  year?: number;
+  role?: string; // e.g. "Director" or the character name
+  metascore?: number;
+}
+
+export interface PersonDetails {
+  mediaType: "person";
+  name: string;
+  slug: string;
+  url: string;
+  bio?: string;
+  filmography: FilmographyCredit[]; // As listed, newest first on the site
+}
+
+export type MediaDetails =
+  | (GameRatings & { mediaType: "game" })
+  | MovieDetails
+  | TvShowDetails
+  | PersonDetails;
+
+function parseFinderMediaItem(
+  item: FinderItem,
+  mediaType: Exclude<MediaType, "game">
+): Omit<MediaSearchResult, "matchScore" | "source"> {
+  const { name, slug, metascore, releaseYear } = parseFinderItem(item);
+  return {
+    mediaType,
+    name: name || slug,
+    slug,
+    url: buildMediaUrl(mediaType, slug),
+    metascore,
+    releaseYear,
+  };
+}
+
+function rankByMatch(results: MediaSearchResult[]): MediaSearchResult[] {
+  // Stable: equal scores keep Metacritic's order
+  return results
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => b.r.matchScore - a.r.matchScore || a.i - b.i)
+    .map(({ r }) => r);
+}
+
+/**
+ * Search one media type by name. Games go through searchGamesByName (with its
+ * hints and HTML fallback); other types use the finder API with the same fallback.
+ */
+export async function searchMedia(
+  query: string,
+  mediaType: MediaType = "game",
+  opts: ScrapeOptions = {}
+): Promise<MediaSearchResult[]> {
+  if (mediaType === "game") {
+    const games = await searchGamesByName(query, opts);
+    return games.map((g) => ({
+      mediaType: "game",
+      name: g.name,
+      slug: g.slug,
+      url: g.url,
+      metascore: g.metascore,
+      releaseYear: g.releaseYear,
+      matchScore: g.matchScore,
+      source: g.source,
+    }));
+  }
+
+  const maxCandidates = Math.max(1, opts.maxCandidates ?? 5);
+  const offset = Math.max(0, opts.offset ?? 0);
+  const items = await searchFinder(
+    query,
+    mediaType,
+    { offset, limit: maxCandidates },
+    opts
+  );
+  if (items) {
+    const results: MediaSearchResult[] = items.map((item) => {
+      const result = parseFinderMediaItem(item, mediaType);
+      return {
+        ...result,
+        matchScore: titleSimilarity(query, result.name),
+        source: "api",
+      };
+    });
+    return rankByMatch(results).slice(0, maxCandidates);
+  }
+
+  // The HTML search page takes the same ids as its category
+  const url = `https://www.metacritic.com/search/${encodeURIComponent(
+    query
+  )}/?category=${MCO_TYPE_IDS[mediaType]}`;
+  const $ = loadHTML(await fetchText(url, opts, "search"));
+  const seen = new Set<string>();
+  const results: MediaSearchResult[] = [];
+  $(`a[href^="/${mediaType}/"]`).each((_, el) => {
+    const $el = $(el);
+    if ($el.closest("nav, header, footer").length > 0) return;
+    const ref = parseMediaUrl($el.attr("href") ?? "");
+    if (!ref || ref.mediaType !== mediaType || seen.has(ref.slug)) return;
+    const name =
+      $el.find('[data-testid="product-title"]').first().text().trim() ||
+      $el.text().trim();
+    if (!name) return;
+    seen.add(ref.slug);
+    const scoreText = $el
+      .find('[data-testid="product-metascore"], .c-siteReviewScore')
+      .first()
+      .text()
+      .trim();
+    results.push({
+      mediaType,
+      name,
+      slug: ref.slug,
+      url: buildMediaUrl(mediaType, ref.slug),
+      metascore: /^\d+$/.test(scoreText) ? Number(scoreText) : undefined,
+      matchScore: titleSimilarity(query, name),
+      source: "html",
+    });
+  });
+  return rankByMatch(results).slice(0, maxCandidates);
+}
+
+/**
+ * Full details for a game, movie, show or person, from a URL or a slug plus type.
+ */
+export async function getMediaDetails(
+  slugOrUrl: string,
+  mediaType?: MediaType,
+  opts: ScrapeOptions = {}
+): Promise<MediaDetails> {
+  const ref = parseMediaUrl(slugOrUrl);
+  const type = mediaType ?? ref?.mediaType ?? "game";
+  if (type === "game") {
+    return { ...(await getGameDetails(slugOrUrl, opts)), mediaType: "game" };
+  }
+
+  const slug =
+    ref?.mediaType === type ? ref.slug : slugOrUrl.replace(/^\/+|\/+$/g, "");
+  const url = buildMediaUrl(type, slug);
+  const html = await fetchText(url, opts, "media");
+  switch (type) {
+    case "movie":
+      return parseMoviePage(html, url);
+    case "tv":
+      return parseTvPage(html, url);
+    case "person":
+      return parsePersonPage(html, url);
+  }
+}
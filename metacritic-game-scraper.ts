@@ -4,83 +4,218 @@
 //   bun install
 //   bun metacritic-game-scraper.ts "Fortnite"
 //   bun metacritic-game-scraper.ts "GTA V" --limit 2
+//   bun metacritic-game-scraper.ts --help
 
 // Notes:
 // - This scrapes Metacritic's public site. Use only for educational purposes.
 // - Do not run client-side. Metacritic uses bot protections and disallows scraping per their ToS.
 // - Keep concurrency low; include delays; cache results to avoid repeated hits.
-
-import { load as loadHTML } from "cheerio";
-import { request } from "undici";
-// @ts-ignore - ms doesn't have types
-import ms from "ms";
-
-type Platform =
-  | "pc"
-  | "playstation-5"
-  | "xbox-series-x"
-  | "switch"
-  | "playstation-4"
-  | "xbox-one"
-  | "ios"
-  | "android"
-  | "stadia"
-  | "wii-u"
-  | "3ds"
-  | "vita"
-  | "mac"
-  | "linux";
-
-interface Review {
+// - robots.txt rules and Crawl-delay are enforced, with an honest User-Agent (see politeness.ts).
+
+import { load as loadHTML, type Cheerio, type CheerioAPI } from "cheerio";
+import type { AnyNode } from "domhandler";
+import { stripEditionSuffixes, titleSimilarity } from "./title-match.ts";
+import { type CacheOptions, type ResourceKind } from "./response-cache.ts";
+import type { Transport } from "./transport.ts";
+import { AbortedError, ParseError } from "./errors.ts";
+import type { RetryOptions } from "./retry.ts";
+import { extractGameMetadata } from "./game-metadata.ts";
+import {
+  fetchText,
+  type BaseUrls,
+  type RequestEvent,
+  type RequestMetric,
+  type ResponseEvent,
+} from "./http.ts";
+import {
+  buildGameUrl,
+  normalizePlatform,
+  resolvePlatforms,
+  type Platform,
+} from "./platforms.ts";
+import {
+  fetchGameFromApi,
+  parseFinderItem,
+  searchFinder,
+} from "./backend-client.ts";
+import { dateTime, normalizeDate, type NormalizedDate } from "./dates.ts";
+import { selectFirst, type SelectorTrace } from "./selectors.ts";
+
+export interface Review {
   type: "critic" | "user";
   source?: string; // Outlet name for critic, or username for user
   quote?: string; // Review excerpt/snippet
   score?: number; // Critic: 0–100, User: 0–10
-  date?: string; // ISO if parsable, otherwise raw
+  date?: string; // ISO (YYYY-MM-DD) if parsable, otherwise raw
+  dateNormalized?: NormalizedDate; // Parsed date with its original text and precision
   url?: string; // Link to full review (critic reviews often have external links)
 }
 
-interface GameRatings {
+export type ReviewSentiment = "positive" | "mixed" | "negative";
+
+export interface ReviewFilters {
+  type?: "critic" | "user" | "all"; // default "all"
+  platform?: string; // Platform slug; defaults to the platform in the game URL, if any
+  sentiment?: ReviewSentiment | ReviewSentiment[];
+  minScore?: number; // 0–100 scale; user scores (0–10) are scaled ×10 before comparing
+  since?: string | Date; // Reviews with unparsable dates are dropped when a date range is set
+  until?: string | Date;
+  maxPages?: number; // default 50 - per review type
+}
+
+export interface GameRatings {
   name: string;
-  platforms: string[]; // All platforms the game is available on
+  platforms: Platform[]; // All platforms the game is available on
+  unknownPlatforms?: string[]; // Platform names the registry in platforms.ts doesn't recognize
   slug: string;
   url: string;
   metascore?: number; // 0–100
   userscore?: number; // 0–10
   criticReviewsCount?: number;
   userRatingsCount?: number;
-  releaseDate?: string;
+  releaseDate?: string; // As the source shows it, e.g. "Nov 14, 2025" or "TBA 2026"
+  releaseDateNormalized?: NormalizedDate; // ISO date, precision (day/month/quarter/year/tba) and original text
   reviews?: Review[]; // Optional - not needed for simple metascore lookup
+  platformScores?: Partial<Record<Platform, PlatformScore>>; // Keyed by platform slug; see includePlatformScores
+  developers?: string[];
+  publishers?: string[];
+  genres?: string[];
+  contentRating?: string; // e.g. "ESRB M" or "PEGI 18"
+  summary?: string;
+  coverImageUrl?: string;
+  criticDistribution?: ScoreDistribution; // Count of positive/mixed/negative critic reviews
+  userDistribution?: ScoreDistribution;
+  fieldSources?: Partial<Record<keyof GameRatings, FieldSource>>; // Which source filled each field
+  matchScore?: number; // 0–1 title similarity of the chosen search candidate
+  ambiguous?: boolean; // True when other candidates scored within ambiguityMargin
+  alternatives?: SearchResult[]; // The close runners-up when ambiguous
+  hints?: HintMatch; // Which search hints the chosen candidate satisfied
+}
+
+export type FieldSource = "api" | "html" | "computed"; // Backend JSON API, scraped HTML page, or derived by the scraper
+
+export interface ScoreDistribution {
+  positive: number;
+  mixed: number;
+  negative: number;
+}
+
+export interface PlatformScore {
+  platform: Platform;
+  url: string; // The platform variant of the game page
+  metascore?: number; // 0–100
+  userscore?: number; // 0–10
+  criticReviewsCount?: number;
+  userRatingsCount?: number;
+  releaseDate?: string;
+  source?: FieldSource; // "html" when the page filled any of these scores
 }
 
-interface SearchResult {
+export interface SearchResult {
   name: string;
-  platforms: string[]; // All platforms the game is available on
+  platforms: Platform[]; // All platforms the game is available on
+  unknownPlatforms?: string[]; // Platform names the registry in platforms.ts doesn't recognize
   slug: string; // the part after /game/<platform>/
   url: string;
   metascore?: number; // Metascore from API
+  userscore?: number; // Browse listings only
+  matchScore: number; // 0–1 title similarity to the query (1 = exact)
+  releaseYear?: number;
+  releaseDate?: string;
+  type?: string; // Finder item type, e.g. "game-title"
+  source: "api" | "html"; // Finder API or HTML search fallback
+  hints?: HintMatch; // Set when the search had platform/year hints
+}
+
+export interface HintMatch {
+  platform?: boolean; // Set when a platform hint was given; true if the game is on it
+  releaseYear?: boolean; // Set when a year hint was given; true if the release year is in range
 }
 
-interface ScrapeOptions {
+export type ReleaseYearHint = number | { from?: number; to?: number };
+
+export interface ScrapeOptions {
   concurrency?: number; // default 2
   timeoutMs?: number; // default 15000
   delayBetweenRequestsMs?: number; // default 1000
   maxCandidates?: number; // default 5
+  offset?: number; // default 0 - page through search results
+  ambiguityMargin?: number; // default 0.05 - matchScore gap below which candidates are ambiguous
+  platform?: string; // Search hint: prefer games on this platform and build its URL
+  releaseYear?: ReleaseYearHint; // Search hint: a year or an inclusive range
+  matchMode?: "fuzzy" | "exact"; // default "fuzzy"; "exact" keeps only titles equal after normalization
+  cache?: CacheOptions; // Omit to always hit the network
+  includePlatformScores?: boolean; // default false - fetch every platform page for platformScores
+  includeReviews?: boolean; // default false - walk all critic/user review pages into reviews
+  transport?: Transport; // default undiciTransport; see transport.ts for record/replay
+  retry?: RetryOptions | false; // default 3 retries with exponential backoff; false disables
+  onDiagnostic?: (event: DiagnosticEvent) => void; // Retries and fallbacks that would otherwise be silent
+  headers?: Record<string, string>; // Merged over DEFAULT_HEADERS on every request
+  baseUrls?: BaseUrls; // Send requests to a mirror or local mock instead of metacritic.com
+  signal?: AbortSignal; // Cancels queued, in-flight and retrying requests with AbortedError
+  onRequest?: (event: RequestEvent) => void; // Before each network attempt; cache hits don't fire
+  onResponse?: (event: ResponseEvent) => void; // After each response, whatever its status
+  onError?: (error: unknown, event: RequestEvent) => void; // Each failed attempt, including retried ones
+  robotsTxt?: boolean; // default true unless the transport sets `live: false` (ReplayTransport, stubs) - obey robots.txt and Crawl-delay
+  userAgent?: string; // default "metacritic-scraper/1.0"; its product token picks the robots.txt group
+  contact?: string; // Email or URL appended to the User-Agent; an email is also sent as From
+  onMetric?: (metric: RequestMetric) => void; // Once per fetch, with latency, bytes, cache hit and api/html path
+  debugDumpDir?: string; // Save every response body here as a replay fixture (see ReplayTransport)
 }
 
-const DEFAULT_HEADERS = {
-  "User-Agent":
-    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
-  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
-  "Accept-Language": "en-US,en;q=0.9",
-  "Cache-Control": "no-cache",
-};
+export type DiagnosticEvent =
+  | {
+      type: "retry";
+      url: string;
+      attempt: number; // 1-based retry number
+      delayMs: number;
+      error: unknown;
+    }
+  | {
+      type: "search-fallback"; // Finder API unusable; HTML search page used instead
+      query: string;
+      url: string;
+      reason: string;
+      error?: unknown;
+    }
+  | {
+      type: "browse-fallback"; // Finder listing API unusable; /browse/ HTML page used instead
+      url: string;
+      reason: string;
+      error?: unknown;
+    }
+  | {
+      type: "game-fallback"; // Backend product API unusable or incomplete; game page scraped
+      slug: string;
+      reason: string;
+      error?: unknown;
+    }
+  | {
+      type: "dump-failed"; // A debugDumpDir fixture couldn't be written; the fetch went on
+      url: string;
+      dir: string;
+      error: unknown;
+    }
+  | {
+      type: "platform-scores-failed"; // A platform's game page couldn't be fetched; left out of platformScores
+      slug: string;
+      platform: Platform;
+      url: string;
+      reason: string;
+      error?: unknown;
+    };
+
+// The HTML search page lists this many results per page
+const HTML_SEARCH_PAGE_SIZE = 20;
 
 function sleep(msNum: number) {
   return new Promise((res) => setTimeout(res, msNum));
 }
 
-function parseNumber(text?: string): number | undefined {
+/**
+ * The digits and decimal point of `text` as a number, e.g. "8.1" or "1,234 Ratings".
+ */
+export function parseNumber(text?: string): number | undefined {
   if (!text) return undefined;
   const cleaned = text.replace(/[^\d.]/g, "");
   if (!cleaned) return undefined;
@@ -88,133 +223,166 @@ function parseNumber(text?: string): number | undefined {
   return Number.isNaN(n) ? undefined : n;
 }
 
-function normalizePlatform(raw?: string): string | undefined {
-  if (!raw) return undefined;
-  const t = raw.toLowerCase();
-  // Map common display names to path segments where possible
-  if (t.includes("pc")) return "pc";
-  if (t.includes("playstation 5")) return "playstation-5";
-  if (t.includes("ps5")) return "playstation-5";
-  if (t.includes("playstation 4")) return "playstation-4";
-  if (t.includes("ps4")) return "playstation-4";
-  if (t.includes("xbox series")) return "xbox-series-x";
-  if (t.includes("xbox one")) return "xbox-one";
-  if (t.includes("switch")) return "switch";
-  if (t.includes("mac")) return "mac";
-  if (t.includes("linux")) return "linux";
-  if (t.includes("ios")) return "ios";
-  if (t.includes("android")) return "android";
-  return raw;
-}
-
-async function fetchHtml(url: string, timeoutMs: number): Promise<string> {
-  const { body, statusCode } = await request(url, {
-    headers: DEFAULT_HEADERS,
-    bodyTimeout: timeoutMs,
-    headersTimeout: timeoutMs,
-  });
-  if (statusCode >= 400) {
-    throw new Error(`HTTP ${statusCode} for ${url}`);
+function parseYear(text?: string): number | undefined {
+  const m = text?.match(/\b(19[7-9]\d|20\d\d)\b/);
+  return m?.[1] ? Number(m[1]) : undefined;
+}
+
+/**
+ * Order candidates by match score, keeping the upstream relevance order for ties.
+ */
+function rankResults(results: SearchResult[]): SearchResult[] {
+  return results
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => b.r.matchScore - a.r.matchScore || a.i - b.i)
+    .map(({ r }) => r);
+}
+
+interface SearchHints {
+  title: string; // The query with inline hints removed
+  platform?: Platform;
+  releaseYear?: { from?: number; to?: number };
+  exact: boolean;
+}
+
+/**
+ * Combine explicit hint options with hints written into the query itself:
+ * a trailing "(2023)", "(PC)" or "on PC" / "for PS5". Options win.
+ */
+function parseSearchHints(query: string, opts: ScrapeOptions): SearchHints {
+  let title = query.trim();
+  let platform: Platform | undefined;
+  let year: number | undefined;
+
+  // Hints can be stacked, e.g. "Doom (2016) on PC"
+  for (let i = 0; i < 2; i++) {
+    const yearMatch = title.match(/\s*[([]\s*((?:19|20)\d\d)\s*[)\]]\s*$/);
+    if (yearMatch?.[1] && year === undefined) {
+      year = Number(yearMatch[1]);
+      title = title.slice(0, yearMatch.index).trim();
+      continue;
+    }
+    const platformMatch =
+      title.match(/\s*[([]([^()[\]]+)[)\]]\s*$/) ??
+      title.match(/\s+(?:on|for)\s+(.+)$/i);
+    const hinted = normalizePlatform(platformMatch?.[1]);
+    if (platformMatch && hinted && !platform) {
+      platform = hinted;
+      title = title.slice(0, platformMatch.index).trim();
+      continue;
+    }
+    break;
   }
-  const buf = await body.arrayBuffer();
-  return Buffer.from(buf).toString("utf-8");
+
+  const yearOpt = opts.releaseYear;
+  return {
+    title: title || query.trim(),
+    platform: opts.platform ? normalizePlatform(opts.platform) : platform,
+    releaseYear:
+      typeof yearOpt === "number"
+        ? { from: yearOpt, to: yearOpt }
+        : yearOpt ??
+          (year !== undefined ? { from: year, to: year } : undefined),
+    exact: opts.matchMode === "exact",
+  };
+}
+
+/**
+ * Annotate candidates with the hints they satisfy, point them at the hinted platform's page,
+ * and move those satisfying more hints ahead (keeping matchScore order otherwise).
+ */
+function applySearchHints(
+  results: SearchResult[],
+  hints: SearchHints
+): SearchResult[] {
+  const filtered = hints.exact
+    ? results.filter((r) => r.matchScore === 1)
+    : results;
+  if (!hints.platform && !hints.releaseYear) return filtered;
+
+  const annotated = filtered.map((r) => {
+    const match: HintMatch = {};
+    if (hints.platform) match.platform = r.platforms.includes(hints.platform);
+    if (hints.releaseYear) {
+      const { from = -Infinity, to = Infinity } = hints.releaseYear;
+      match.releaseYear =
+        r.releaseYear !== undefined &&
+        r.releaseYear >= from &&
+        r.releaseYear <= to;
+    }
+    return {
+      ...r,
+      url:
+        hints.platform && match.platform
+          ? buildGameUrl(r.slug, hints.platform)
+          : r.url,
+      hints: match,
+    };
+  });
+  return annotated.sort((a, b) => hintCount(b) - hintCount(a));
+}
+
+function hintCount(result: SearchResult): number {
+  return (result.hints?.platform ? 1 : 0) + (result.hints?.releaseYear ? 1 : 0);
+}
+
+async function fetchHtml(
+  url: string,
+  opts: ScrapeOptions,
+  kind: ResourceKind = "game"
+): Promise<string> {
+  return fetchText(url, opts, kind);
 }
 
 /**
  * Search Metacritic for games by name.
  * We use Metacritic's internal search results page.
+ * Returns up to `maxCandidates` results starting at `offset`, ranked by matchScore.
  */
 export async function searchGamesByName(
   query: string,
   opts: ScrapeOptions = {}
 ): Promise<SearchResult[]> {
-  const timeoutMs = opts.timeoutMs ?? 15000;
+  const maxCandidates = Math.max(1, opts.maxCandidates ?? 5);
+  const offset = Math.max(0, opts.offset ?? 0);
+  const hints = parseSearchHints(query, opts);
+  // Ask for extra candidates when hints may promote ones ranked further down
+  const fetchLimit =
+    hints.platform || hints.releaseYear || hints.exact
+      ? Math.max(maxCandidates, HTML_SEARCH_PAGE_SIZE)
+      : maxCandidates;
+  // The finder gets the bare title: no hints, trademarks or edition suffixes
+  const searchText = stripEditionSuffixes(hints.title) || hints.title;
 
   // Use Metacritic's backend API endpoint directly
-  // mcoTypeId=13 is for games (2=movies, 1=TV, 3=people)
-  // Only get 1 result (the best match)
-  const apiUrl = `https://backend.metacritic.com/finder/metacritic/search/${encodeURIComponent(
-    query
-  )}/web?offset=0&limit=1&mcoTypeId=13&sortBy=&sortDirection=DESC&componentName=search&componentDisplayName=Search&componentType=SearchResults`;
-
-  try {
-    const { body, statusCode } = await request(apiUrl, {
-      headers: {
-        ...DEFAULT_HEADERS,
-        Accept: "application/json",
-      },
-      bodyTimeout: timeoutMs,
-      headersTimeout: timeoutMs,
+  const items = await searchFinder(
+    query,
+    "game",
+    { searchText, offset, limit: fetchLimit },
+    opts
+  );
+  if (items) {
+    const results: SearchResult[] = items.map((item) => {
+      const result = parseFinderItem(item);
+      return {
+        ...result,
+        matchScore: titleSimilarity(hints.title, result.name),
+        source: "api",
+      };
     });
-
-    if (statusCode === 200) {
-      const buf = await body.arrayBuffer();
-      const jsonText = Buffer.from(buf).toString("utf-8");
-      if (jsonText) {
-        try {
-          const jsonData = JSON.parse(jsonText);
-          // The API returns data.items array
-          if (
-            jsonData &&
-            jsonData.data &&
-            jsonData.data.items &&
-            Array.isArray(jsonData.data.items)
-          ) {
-            const results: SearchResult[] = jsonData.data.items
-              .filter((item: any) => item.type === "game-title" && item.slug)
-              .map((item: any) => {
-                // Extract slug from the item
-                const slug = item.slug || "";
-
-                // Get all platforms and normalize them, removing duplicates
-                const platforms: string[] =
-                  item.platforms && Array.isArray(item.platforms)
-                    ? Array.from(
-                        new Set(
-                          item.platforms
-                            .map((p: any) => normalizePlatform(p.name))
-                            .filter((p: string | undefined): p is string => !!p)
-                        )
-                      )
-                    : [];
-
-                // Use first platform for URL construction, or slug-only if no platforms
-                const firstPlatform = platforms.length > 0 ? platforms[0] : "";
-                const gameUrl = firstPlatform
-                  ? `https://www.metacritic.com/game/${firstPlatform}/${slug}/`
-                  : `https://www.metacritic.com/game/${slug}/`;
-
-                // Extract metascore from criticScoreSummary
-                const metascore = item.criticScoreSummary?.score ?? undefined;
-
-                return {
-                  name: item.title || item.name || "",
-                  platforms: platforms,
-                  slug: slug,
-                  url: gameUrl,
-                  metascore: metascore,
-                };
-              });
-            if (results.length > 0 && results[0]) {
-              // Return only the first (best) result
-              return [results[0]];
-            }
-          }
-        } catch (e) {
-          // Not valid JSON, fall through to HTML scraping
-        }
-      }
-    }
-  } catch (e) {
-    // API endpoint failed, fall through to HTML scraping
+    return applySearchHints(rankResults(results), hints).slice(
+      0,
+      maxCandidates
+    );
   }
 
   // Fallback: Try the standard Metacritic search URL format and parse HTML
   // Note: category=2 is wrong, it should be games but Metacritic uses mcoTypeId=13 in API
+  const page = Math.floor(offset / HTML_SEARCH_PAGE_SIZE) + 1;
   const url = `https://www.metacritic.com/search/${encodeURIComponent(
-    query
-  )}/?category=2`;
-  const html = await fetchHtml(url, timeoutMs);
+    searchText
+  )}/?category=2${page > 1 ? `&page=${page}` : ""}`;
+  const html = await fetchHtml(url, opts, "search");
   const $ = loadHTML(html);
 
   const results: SearchResult[] = [];
@@ -303,7 +471,7 @@ export async function searchGamesByName(
 
   // Metacritic has a new layout, but also serves a classic list.
   // Try multiple selectors.
-  const queryLower = query.toLowerCase();
+  const queryLower = searchText.toLowerCase();
   const queryWords = queryLower.split(/\s+/).filter((w) => w.length > 2); // Words longer than 2 chars
 
   gameLinks.each((_, el) => {
@@ -364,7 +532,7 @@ export async function searchGamesByName(
     // - /game/<platform>/<slug>/ (classic format)
     // - /game/<slug>/ (new format without platform in path)
     // Skip links with extra path segments like /critic-reviews/, /user-reviews/, etc.
-    let platform: string | undefined;
+    let platform: Platform | undefined;
     let slug: string | undefined;
 
     // Known non-game path segments to skip
@@ -380,14 +548,11 @@ export async function searchGamesByName(
       if (!firstSegment || !secondSegment) return;
 
       // Check if first segment is a known platform
-      if (
-        firstSegment.match(
-          /^(pc|playstation-5|playstation-4|ps5|ps4|xbox-series-x|xbox-one|switch|ios|android|mac|linux|stadia|wii-u|3ds|vita|nintendo-switch)/
-        )
-      ) {
+      const segmentPlatform = normalizePlatform(firstSegment);
+      if (segmentPlatform) {
         // Format: /game/platform/slug - only if second segment is not a skip segment
         if (!skipSegments.includes(secondSegment)) {
-          platform = firstSegment;
+          platform = segmentPlatform;
           slug = secondSegment;
         }
       } else {
@@ -419,12 +584,23 @@ export async function searchGamesByName(
       cleanHref.endsWith("/") ? cleanHref : cleanHref + "/"
     }`;
 
-    const normalizedPlatform = normalizePlatform(platformText) || platform;
+    const releaseText = $(el)
+      .find('[data-testid="searchResult-releaseDate"], .release, time')
+      .first()
+      .text()
+      .trim();
+
+    const { platforms, unknown } = resolvePlatforms([platformText]);
     results.push({
       name: name || slug,
-      platforms: normalizedPlatform ? [normalizedPlatform] : [],
+      platforms,
+      unknownPlatforms: unknown.length > 0 ? unknown : undefined,
       slug,
       url,
+      matchScore: titleSimilarity(hints.title, name || slug.replace(/-/g, " ")),
+      releaseYear: parseYear(releaseText),
+      type: "game-title",
+      source: "html",
     });
   });
 
@@ -436,134 +612,242 @@ export async function searchGamesByName(
     return true;
   });
 
-  // Return only the first result (best match)
-  const firstResult = deduped[0];
-  return firstResult ? [firstResult] : [];
+  // Skip whatever part of this page earlier offsets already covered
+  const pageOffset = offset % HTML_SEARCH_PAGE_SIZE;
+  return applySearchHints(rankResults(deduped), hints).slice(
+    pageOffset,
+    pageOffset + maxCandidates
+  );
+}
+
+function parseCriticReview(
+  $el: Cheerio<AnyNode>,
+  trace?: SelectorTrace
+): Review {
+  const find = (selector: string) => $el.find(selector);
+
+  const source = selectFirst(
+    find,
+    "criticReview.source",
+    [
+      '[data-testid="critic-publication"]',
+      ".c-siteReviewHeader_publicationName",
+      ".source",
+    ],
+    trace
+  );
+
+  const scoreText = selectFirst(
+    find,
+    "criticReview.score",
+    ['[data-testid="critic-score"]', ".c-siteReviewScore", ".metascore_w"],
+    trace
+  );
+
+  const dateText = selectFirst(
+    find,
+    "criticReview.date",
+    ['[data-testid="critic-date"]', ".c-siteReview_reviewDate", ".date"],
+    trace
+  );
+  const date = normalizeDate(dateText);
+
+  const quote = selectFirst(
+    find,
+    "criticReview.quote",
+    ['[data-testid="review-quote"]', ".c-siteReview_quote", ".summary"],
+    trace
+  );
+
+  const urlEl = selectFirst(
+    find,
+    "criticReview.url",
+    [
+      { selector: 'a[href^="http"]', attr: "href" },
+      { selector: "a.read_full_review", attr: "href" },
+    ],
+    trace
+  );
+
+  return {
+    type: "critic",
+    source: source || undefined,
+    quote: quote || undefined,
+    score: parseNumber(scoreText),
+    date: date?.iso ?? (dateText || undefined),
+    dateNormalized: date,
+    url: urlEl || undefined,
+  };
+}
+
+function parseUserReview($el: Cheerio<AnyNode>, trace?: SelectorTrace): Review {
+  const find = (selector: string) => $el.find(selector);
+
+  const source = selectFirst(
+    find,
+    "userReview.source",
+    [
+      '[data-testid="user-username"]',
+      ".c-siteReviewHeader_username",
+      ".author",
+    ],
+    trace
+  );
+
+  const scoreText = selectFirst(
+    find,
+    "userReview.score",
+    ['[data-testid="user-score"]', ".c-siteReviewScore", ".metascore_w"],
+    trace
+  );
+
+  const dateText = selectFirst(
+    find,
+    "userReview.date",
+    ['[data-testid="user-date"]', ".c-siteReview_reviewDate", ".date"],
+    trace
+  );
+  const date = normalizeDate(dateText);
+
+  const quote = selectFirst(
+    find,
+    "userReview.quote",
+    ['[data-testid="review-quote"]', ".c-siteReview_quote", ".summary"],
+    trace
+  );
+
+  return {
+    type: "user",
+    source: source || undefined,
+    quote: quote || undefined,
+    score: parseNumber(scoreText),
+    date: date?.iso ?? (dateText || undefined),
+    dateNormalized: date,
+  };
 }
 
 /**
- * Parse ratings + reviews from a specific game page.
+ * Parse a game page's HTML. Pass a SelectorTrace to find out which selector
+ * each field came from; the trace is complete even when this throws.
  */
-export async function scrapeGamePage(
+export function parseGamePage(
+  html: string,
   url: string,
-  opts: ScrapeOptions = {}
-): Promise<GameRatings> {
-  const timeoutMs = opts.timeoutMs ?? 15000;
-
-  const html = await fetchHtml(url, timeoutMs);
+  trace?: SelectorTrace
+): GameRatings {
   const $ = loadHTML(html);
+  const find = (selector: string) => $(selector);
+
+  const name = selectFirst(
+    find,
+    "name",
+    [
+      'h1[data-testid="product-title"]',
+      "h1.product_title",
+      { selector: 'meta[property="og:title"]', attr: "content" },
+    ],
+    trace
+  );
 
-  const name =
-    $('h1[data-testid="product-title"]').first().text().trim() ||
-    $("h1.product_title").first().text().trim() ||
-    $('meta[property="og:title"]').attr("content")?.trim() ||
-    "";
-
-  const platform =
-    $('span[data-testid="product-platform"]').first().text().trim() ||
-    $("span.platform").first().text().trim() ||
-    "";
+  const platform = selectFirst(
+    find,
+    "platform",
+    ['span[data-testid="product-platform"]', "span.platform"],
+    trace
+  );
 
-  const metascoreText =
-    $('[data-testid="metascore-wrapped"]').first().text().trim() ||
-    $("div.metascore_w > span").first().text().trim() ||
-    $("div.metascore_w").first().text().trim();
+  // Multi-platform pages list every platform, not just the one being viewed
+  const listedPlatforms = $('span[data-testid="product-platform"]')
+    .map((_, el) => $(el).text().trim())
+    .get();
+
+  const metascoreText = selectFirst(
+    find,
+    "metascore",
+    [
+      '[data-testid="metascore-wrapped"]',
+      "div.metascore_w > span",
+      "div.metascore_w",
+    ],
+    trace
+  );
 
-  const userscoreText =
-    $('[data-testid="userscore-wrapped"]').first().text().trim() ||
-    $("div.userscore_w > span").first().text().trim() ||
-    $("div.userscore_w").first().text().trim();
+  const userscoreText = selectFirst(
+    find,
+    "userscore",
+    [
+      '[data-testid="userscore-wrapped"]',
+      "div.userscore_w > span",
+      "div.userscore_w",
+    ],
+    trace
+  );
 
-  const criticCountText =
-    $('[data-testid="critic-reviews-count"]').first().text().trim() ||
-    $("a.metascore_anchor span.count").first().text().trim();
+  const criticCountText = selectFirst(
+    find,
+    "criticReviewsCount",
+    ['[data-testid="critic-reviews-count"]', "a.metascore_anchor span.count"],
+    trace
+  );
 
-  const userCountText =
-    $('[data-testid="user-reviews-count"]').first().text().trim() ||
-    $("a.userscore_anchor span.count").first().text().trim();
+  const userCountText = selectFirst(
+    find,
+    "userRatingsCount",
+    ['[data-testid="user-reviews-count"]', "a.userscore_anchor span.count"],
+    trace
+  );
 
-  const releaseDate =
-    $('[data-testid="product-release-date"]').first().text().trim() ||
-    $("li.release_data .data").first().text().trim();
+  const releaseDate = selectFirst(
+    find,
+    "releaseDate",
+    ['[data-testid="product-release-date"]', "li.release_data .data"],
+    trace
+  );
 
   const reviews: Review[] = [];
 
   // Critic reviews section: find list items with outlet, score, date, quote, link
-  $('[data-testid="critic-reviews"] article, .critic_reviews .review').each(
-    (_, el) => {
-      const $el = $(el);
-      const source =
-        $el.find('[data-testid="critic-publication"]').first().text().trim() ||
-        $el.find(".source").first().text().trim();
-
-      const scoreText =
-        $el.find('[data-testid="critic-score"]').first().text().trim() ||
-        $el.find(".metascore_w").first().text().trim();
-
-      const dateText =
-        $el.find('[data-testid="critic-date"]').first().text().trim() ||
-        $el.find(".date").first().text().trim();
-
-      const quote =
-        $el.find('[data-testid="review-quote"]').first().text().trim() ||
-        $el.find(".summary").first().text().trim();
-
-      const urlEl =
-        $el.find('a[href^="http"]').first().attr("href") ||
-        $el.find("a.read_full_review").first().attr("href");
-
-      reviews.push({
-        type: "critic",
-        source: source || undefined,
-        quote: quote || undefined,
-        score: parseNumber(scoreText),
-        date: dateText || undefined,
-        url: urlEl || undefined,
-      });
-    }
-  );
+  const criticSelectors = [
+    '[data-testid="critic-reviews"] article',
+    ".critic_reviews .review",
+  ];
+  $(criticSelectors.join(", ")).each((_, el) => {
+    reviews.push(parseCriticReview($(el), trace));
+  });
+  traceContainer($, "criticReviews", criticSelectors, trace);
 
   // User reviews section: username, score, date, quote
-  $('[data-testid="user-reviews"] article, .user_reviews .review').each(
-    (_, el) => {
-      const $el = $(el);
-      const source =
-        $el.find('[data-testid="user-username"]').first().text().trim() ||
-        $el.find(".author").first().text().trim();
-
-      const scoreText =
-        $el.find('[data-testid="user-score"]').first().text().trim() ||
-        $el.find(".metascore_w").first().text().trim();
-
-      const dateText =
-        $el.find('[data-testid="user-date"]').first().text().trim() ||
-        $el.find(".date").first().text().trim();
-
-      const quote =
-        $el.find('[data-testid="review-quote"]').first().text().trim() ||
-        $el.find(".summary").first().text().trim();
-
-      reviews.push({
-        type: "user",
-        source: source || undefined,
-        quote: quote || undefined,
-        score: parseNumber(scoreText),
-        date: dateText || undefined,
-      });
-    }
-  );
+  const userSelectors = [
+    '[data-testid="user-reviews"] article',
+    ".user_reviews .review",
+  ];
+  $(userSelectors.join(", ")).each((_, el) => {
+    reviews.push(parseUserReview($(el), trace));
+  });
+  traceContainer($, "userReviews", userSelectors, trace);
+
+  const metadata = extractGameMetadata($, trace);
+
+  if (!name) {
+    // Every layout we know has a title; without one the markup has changed
+    throw new ParseError("No product title found on game page", url, "name");
+  }
 
   // Derive platform slug and game slug from URL
   const m = url.match(
     /^https:\/\/www\.metacritic\.com\/game\/([^/]+)\/([^/]+)\/?/
   );
-  const platformSlug = m?.[1] ?? platform.toLowerCase();
   const gameSlug = m?.[2] ?? name.toLowerCase().replace(/\s+/g, "-");
 
-  const normalizedPlatform = normalizePlatform(platform) || platformSlug;
+  // The platform in the URL is the variant this page's scores belong to
+  const { platforms, unknown } = resolvePlatforms([
+    m?.[1] ?? platform,
+    ...listedPlatforms,
+  ]);
   const result: GameRatings = {
     name,
-    platforms: normalizedPlatform ? [normalizedPlatform] : [],
+    platforms,
+    unknownPlatforms: unknown.length > 0 ? unknown : undefined,
     slug: gameSlug,
     url,
     metascore: parseNumber(metascoreText),
@@ -571,15 +855,358 @@ export async function scrapeGamePage(
     criticReviewsCount: parseNumber(criticCountText),
     userRatingsCount: parseNumber(userCountText),
     releaseDate: releaseDate || undefined,
+    releaseDateNormalized: normalizeDate(releaseDate),
     reviews,
+    ...metadata,
   };
 
   return result;
 }
 
+/**
+ * Record which review-list selector found any reviews, with the count as its value.
+ */
+function traceContainer(
+  $: CheerioAPI,
+  field: string,
+  selectors: string[],
+  trace?: SelectorTrace
+): void {
+  if (!trace) return;
+  const matched = selectors.find((s) => $(s).length > 0);
+  trace.record({
+    field,
+    tried: selectors,
+    matched,
+    value: matched ? String($(matched).length) : undefined,
+  });
+}
+
+export async function scrapeGamePage(
+  url: string,
+  opts: ScrapeOptions = {}
+): Promise<GameRatings> {
+  return parseGamePage(await fetchHtml(url, opts), url);
+}
+
+/**
+ * Split a game slug or game URL into slug and (optional) platform.
+ */
+function parseGameRef(slugOrUrl: string): { slug: string; platform?: string } {
+  const m = slugOrUrl.match(/\/game\/([^/?#]+)(?:\/([^/?#]+))?/);
+  if (!m?.[1]) return { slug: slugOrUrl.replace(/^\/+|\/+$/g, "") };
+  const skipSegments = ["critic-reviews", "user-reviews", "reviews"];
+  if (m[2] && !skipSegments.includes(m[2])) {
+    return { slug: m[2], platform: m[1] };
+  }
+  return { slug: m[1] };
+}
+
+/**
+ * Metacritic's color bands: 75+ positive, 50–74 mixed, below 50 negative (user scores ×10).
+ */
+function reviewSentiment(review: Review): ReviewSentiment | undefined {
+  if (review.score === undefined) return undefined;
+  const score = review.type === "user" ? review.score * 10 : review.score;
+  if (score >= 75) return "positive";
+  if (score >= 50) return "mixed";
+  return "negative";
+}
+
+function toTime(value?: string | Date): number | undefined {
+  if (value === undefined) return undefined;
+  const t = value instanceof Date ? value.getTime() : Date.parse(value);
+  return Number.isNaN(t) ? undefined : t;
+}
+
+function matchesReviewFilters(review: Review, filters: ReviewFilters): boolean {
+  if (filters.sentiment) {
+    const wanted = Array.isArray(filters.sentiment)
+      ? filters.sentiment
+      : [filters.sentiment];
+    const sentiment = reviewSentiment(review);
+    if (!sentiment || !wanted.includes(sentiment)) return false;
+  }
+
+  if (filters.minScore !== undefined) {
+    if (review.score === undefined) return false;
+    const score = review.type === "user" ? review.score * 10 : review.score;
+    if (score < filters.minScore) return false;
+  }
+
+  const since = toTime(filters.since);
+  const until = toTime(filters.until);
+  if (since !== undefined || until !== undefined) {
+    const date = dateTime(review.dateNormalized) ?? toTime(review.date);
+    if (date === undefined) return false;
+    if (since !== undefined && date < since) return false;
+    if (until !== undefined && date > until) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Walk a game's /critic-reviews/ and /user-reviews/ pages and yield every review
+ * that passes `filters`. Reviews repeated across pages are yielded once.
+ */
+export async function* iterateReviews(
+  slugOrUrl: string,
+  filters: ReviewFilters = {},
+  opts: ScrapeOptions = {}
+): AsyncGenerator<Review> {
+  const ref = parseGameRef(slugOrUrl);
+  const platform = filters.platform ?? ref.platform;
+  const maxPages = Math.max(1, filters.maxPages ?? 50);
+  const types: Review["type"][] =
+    !filters.type || filters.type === "all"
+      ? ["critic", "user"]
+      : [filters.type];
+
+  const seen = new Set<string>();
+
+  for (const type of types) {
+    for (let page = 0; page < maxPages; page++) {
+      const params = new URLSearchParams();
+      if (platform) params.set("platform", platform);
+      if (page > 0) params.set("page", String(page));
+      const query = params.toString();
+      const url = `https://www.metacritic.com/game/${
+        ref.slug
+      }/${type}-reviews/${query ? `?${query}` : ""}`;
+
+      const html = await fetchHtml(url, opts, "reviews");
+      const $ = loadHTML(html);
+      const cards = $(
+        '[data-testid="product-review"], .c-siteReview, [data-testid="critic-reviews"] article, [data-testid="user-reviews"] article, .review_section .review, .critic_reviews .review, .user_reviews .review'
+      );
+      if (cards.length === 0) break;
+
+      let newOnPage = 0;
+      for (const el of cards.toArray()) {
+        const review =
+          type === "critic" ? parseCriticReview($(el)) : parseUserReview($(el));
+        const key = [type, review.source, review.date, review.quote].join("|");
+        if (seen.has(key)) continue;
+        seen.add(key);
+        newOnPage++;
+        if (matchesReviewFilters(review, filters)) yield review;
+      }
+
+      // Past the last page Metacritic repeats the final page instead of 404ing
+      if (newOnPage === 0) break;
+      // A short page without a "next" link is the last one; full pages are
+      // followed even without one, since not every layout renders pagination
+      const hasNext =
+        $('a[rel="next"], .page_nav .next a, [data-testid="pagination-next"]')
+          .length > 0;
+      if (!hasNext && cards.length < 10) break;
+    }
+  }
+}
+
+/**
+ * Collect every review from `iterateReviews` into an array.
+ */
+export async function getReviews(
+  slugOrUrl: string,
+  filters: ReviewFilters = {},
+  opts: ScrapeOptions = {}
+): Promise<Review[]> {
+  const reviews: Review[] = [];
+  for await (const review of iterateReviews(slugOrUrl, filters, opts)) {
+    reviews.push(review);
+  }
+  return reviews;
+}
+
+// Worth a page fetch when the backend API doesn't have them
+const HTML_GAP_FIELDS = ["metascore", "userscore", "releaseDate"] as const;
+
+function isFilled(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+// Ranking fields the scraper derives rather than reads from a source
+const COMPUTED_FIELDS: ReadonlySet<string> = new Set([
+  "matchScore",
+  "ambiguous",
+  "alternatives",
+  "hints",
+]);
+
+// Credit every filled field of `game` to one source, except the computed ones
+function fieldSourcesOf(
+  game: GameRatings,
+  source: FieldSource
+): Partial<Record<keyof GameRatings, FieldSource>> {
+  const fieldSources: Partial<Record<keyof GameRatings, FieldSource>> = {};
+  for (const [key, value] of Object.entries(game)) {
+    if (key !== "fieldSources" && isFilled(value)) {
+      fieldSources[key as keyof GameRatings] = COMPUTED_FIELDS.has(key)
+        ? "computed"
+        : source;
+    }
+  }
+  return fieldSources;
+}
+
+/**
+ * Combine API and HTML results field by field, preferring the API.
+ */
+function mergeGameSources(
+  api: GameRatings | undefined,
+  html: GameRatings | undefined
+): GameRatings {
+  const merged: Record<string, unknown> = {};
+  const fieldSources: GameRatings["fieldSources"] = {};
+  for (const [source, game] of [
+    ["api", api],
+    ["html", html],
+  ] as const) {
+    if (!game) continue;
+    for (const [key, sourced] of Object.entries(fieldSourcesOf(game, source))) {
+      if (isFilled(merged[key])) continue;
+      merged[key] = game[key as keyof GameRatings];
+      fieldSources[key as keyof GameRatings] = sourced;
+    }
+  }
+  return { ...(merged as unknown as GameRatings), fieldSources };
+}
+
+/**
+ * Get a game by slug or URL: the typed backend API first, with scrapeGamePage as
+ * the fallback when the API fails or lacks scores/release date.
+ * `fieldSources` records which source filled each field.
+ */
+export async function getGameDetails(
+  slugOrUrl: string,
+  opts: ScrapeOptions = {}
+): Promise<GameRatings> {
+  const ref = parseGameRef(slugOrUrl);
+
+  let api: GameRatings | undefined;
+  try {
+    api = await fetchGameFromApi(ref.slug, ref.platform, opts);
+  } catch (e) {
+    if (e instanceof AbortedError) throw e;
+    opts.onDiagnostic?.({
+      type: "game-fallback",
+      slug: ref.slug,
+      reason: e instanceof Error ? e.message : String(e),
+      error: e,
+    });
+  }
+
+  const gaps = api
+    ? HTML_GAP_FIELDS.filter((field) => !isFilled(api?.[field]))
+    : [];
+  if (api && gaps.length === 0) return mergeGameSources(api, undefined);
+  if (api) {
+    opts.onDiagnostic?.({
+      type: "game-fallback",
+      slug: ref.slug,
+      reason: `Backend API has no ${gaps.join(", ")}`,
+    });
+  }
+
+  try {
+    const html = await scrapeGamePage(
+      buildGameUrl(ref.slug, ref.platform),
+      opts
+    );
+    return mergeGameSources(api, html);
+  } catch (e) {
+    // The API answer is still better than nothing, unless the call was cancelled
+    if (api && !(e instanceof AbortedError))
+      return mergeGameSources(api, undefined);
+    throw e;
+  }
+}
+
+const PLATFORM_SCORE_FIELDS = [
+  "metascore",
+  "userscore",
+  "criticReviewsCount",
+  "userRatingsCount",
+  "releaseDate",
+] as const;
+
+/**
+ * Visit each platform's variant of a game page and collect its scores.
+ * Requests go through the shared scheduler, so the ScrapeOptions limits apply;
+ * platforms with no scores from either the backend API or the page are left
+ * out of the map, with a `platform-scores-failed` diagnostic each.
+ */
+export async function scrapePlatformScores(
+  slug: string,
+  platforms: Platform[],
+  opts: ScrapeOptions = {}
+): Promise<Partial<Record<Platform, PlatformScore>>> {
+  const entries = await Promise.all(
+    platforms.map(async (platform) => {
+      const url = buildGameUrl(slug, platform);
+      try {
+        const page = await getGameDetails(url, opts);
+        // Product details alone say nothing about this platform
+        if (
+          page.metascore === undefined &&
+          page.userscore === undefined &&
+          page.criticReviewsCount === undefined &&
+          page.userRatingsCount === undefined
+        ) {
+          throw new ParseError(
+            "No scores from the backend API or game page",
+            url,
+            "metascore"
+          );
+        }
+        const score: PlatformScore = {
+          platform,
+          url,
+          metascore: page.metascore,
+          userscore: page.userscore,
+          criticReviewsCount: page.criticReviewsCount,
+          userRatingsCount: page.userRatingsCount,
+          releaseDate: page.releaseDate,
+          source: PLATFORM_SCORE_FIELDS.some(
+            (field) => page.fieldSources?.[field] === "html"
+          )
+            ? "html"
+            : "api",
+        };
+        return [platform, score] as const;
+      } catch (e) {
+        if (e instanceof AbortedError) throw e;
+        // Not every platform has its own page (or it's been removed); skip it
+        opts.onDiagnostic?.({
+          type: "platform-scores-failed",
+          slug,
+          platform,
+          url,
+          reason: e instanceof Error ? e.message : String(e),
+          error: e,
+        });
+        return undefined;
+      }
+    })
+  );
+
+  const platformScores: Partial<Record<Platform, PlatformScore>> = {};
+  for (const entry of entries) {
+    if (entry) platformScores[entry[0]] = entry[1];
+  }
+  return platformScores;
+}
+
 /**
  * Main: find game by name and return with metascore from API.
- * Returns only the best match (first result).
+ * Returns only the best match (highest matchScore). When other candidates score
+ * within `ambiguityMargin` of it, the result is flagged `ambiguous` and lists them.
+ * `fieldSources` credits the search fields to the finder API or HTML search, the
+ * ranking fields (matchScore, ambiguous, alternatives, hints) to "computed",
+ * reviews to "html" and platform scores to wherever their pages' scores came from.
  */
 export async function getGameRatingsAndReviewsByName(
   query: string,
@@ -590,52 +1217,63 @@ export async function getGameRatingsAndReviewsByName(
     return [];
   }
 
-  // Get the first (and only) result
+  // Candidates come back ranked, so the first is the best match
   const result = candidates[0];
+  const margin = opts.ambiguityMargin ?? 0.05;
+  // Candidates that miss hints the best one satisfies aren't real contenders
+  const alternatives = candidates
+    .slice(1)
+    .filter(
+      (c) =>
+        hintCount(c) === hintCount(result) &&
+        result.matchScore - c.matchScore <= margin
+    );
 
   // Convert SearchResult to GameRatings format
   const gameRating: GameRatings = {
     name: result.name,
     platforms: result.platforms || [],
+    unknownPlatforms: result.unknownPlatforms,
     slug: result.slug,
     url: result.url,
     metascore: result.metascore,
+    matchScore: result.matchScore,
+    ambiguous: alternatives.length > 0,
+    alternatives: alternatives.length > 0 ? alternatives : undefined,
+    hints: result.hints,
   };
+  gameRating.fieldSources = fieldSourcesOf(gameRating, result.source);
+
+  if (opts.includeReviews) {
+    gameRating.reviews = await getReviews(gameRating.url, {}, opts);
+    gameRating.fieldSources.reviews = "html";
+  }
+
+  if (opts.includePlatformScores && gameRating.platforms.length > 0) {
+    gameRating.platformScores = await scrapePlatformScores(
+      gameRating.slug,
+      gameRating.platforms,
+      opts
+    );
+    const sources = Object.values(gameRating.platformScores).map(
+      (score) => score.source
+    );
+    if (sources.length > 0) {
+      gameRating.fieldSources.platformScores = sources.includes("html")
+        ? "html"
+        : "api";
+    }
+  }
 
   return [gameRating];
 }
 
 // Simple CLI
-// Check if this is the main module (ESM-compatible for Bun)
-if (import.meta.main || Bun.main === import.meta.url) {
-  const args = process.argv.slice(2);
-  const q = args[0] || "Fortnite";
-
-  // parse optional flags
-  const limitArg = args.find((a) => a.startsWith("--limit="));
-  const concArg = args.find((a) => a.startsWith("--concurrency="));
-  const timeoutArg = args.find((a) => a.startsWith("--timeout="));
-  const delayArg = args.find((a) => a.startsWith("--delay="));
-
-  const maxCandidates = limitArg ? Number(limitArg.split("=")[1]) : 5;
-  const concurrency = concArg ? Number(concArg.split("=")[1]) : 2;
-  const timeoutMs = timeoutArg ? ms(timeoutArg.split("=")[1]) ?? 15000 : 15000;
-  const delayBetweenRequestsMs = delayArg
-    ? ms(delayArg.split("=")[1]) ?? 1000
-    : 1000;
-
-  (async () => {
-    try {
-      const results = await getGameRatingsAndReviewsByName(q, {
-        maxCandidates,
-        concurrency,
-        timeoutMs,
-        delayBetweenRequestsMs,
-      });
-      console.log(JSON.stringify(results, null, 2));
-    } catch (err) {
-      console.error("Error:", err);
-      process.exit(1);
-    }
-  })();
+// Check if this is the main module. import.meta.main is false (or unset) when
+// imported, so library users (and index.ts) never start the CLI
+if (import.meta.main) {
+  // Loaded lazily; cli.ts parses the command line and returns the exit code
+  import("./cli.ts").then(async ({ runCli }) => {
+    process.exitCode = await runCli(process.argv.slice(2));
+  });
 }
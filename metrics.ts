@@ -0,0 +1,123 @@
+// filename: metrics.ts
+// Description: Per-request metrics, a run summary and the wiring that logs both.
+// Usage:
+//   const metrics = new MetricsCollector();
+//   const opts = instrument({ timeoutMs: 5000 }, { logger: createJsonLogger(), metrics });
+//   await searchGamesByName("Doom", opts);
+//   console.error(JSON.stringify(metrics.summary()));
+// Notes:
+// - Metrics come from ScrapeOptions.onMetric (one per fetch) and onDiagnostic (retries and
+//   api -> html fallbacks); instrument() chains onto any hooks already set.
+
+import type { RequestMetric } from "./http.ts";
+import type { Logger } from "./logger.ts";
+import type {
+  DiagnosticEvent,
+  ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+
+export interface LatencySummary {
+  mean: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+export interface MetricsSummary {
+  durationMs: number; // Since the collector was created
+  requests: number; // Fetches, cache hits included
+  network: number; // Fetches that made at least one request
+  cacheHits: number;
+  failed: number;
+  retries: number; // Attempts beyond each fetch's first
+  bytes: number;
+  api: number; // Fetches from the backend JSON API
+  html: number; // Fetches of site pages
+  statuses: Record<string, number>; // Last response status -> fetches
+  latencyMs?: LatencySummary; // Network fetches only; unset when there were none
+  diagnostics: Partial<Record<DiagnosticEvent["type"], number>>; // Retries and fallbacks by type
+}
+
+export interface InstrumentOptions {
+  logger?: Logger;
+  metrics?: MetricsCollector;
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)] ?? 0;
+}
+
+export class MetricsCollector {
+  readonly requests: RequestMetric[] = [];
+  private readonly diagnostics: MetricsSummary["diagnostics"] = {};
+  private readonly startedAt = Date.now();
+
+  record(metric: RequestMetric): void {
+    this.requests.push(metric);
+  }
+
+  recordDiagnostic(event: DiagnosticEvent): void {
+    this.diagnostics[event.type] = (this.diagnostics[event.type] ?? 0) + 1;
+  }
+
+  summary(): MetricsSummary {
+    const network = this.requests.filter((r) => r.attempts > 0);
+    const latencies = network.map((r) => r.latencyMs).sort((a, b) => a - b);
+    const statuses: Record<string, number> = {};
+    for (const r of this.requests) {
+      if (r.status !== undefined) {
+        statuses[r.status] = (statuses[r.status] ?? 0) + 1;
+      }
+    }
+    return {
+      durationMs: Date.now() - this.startedAt,
+      requests: this.requests.length,
+      network: network.length,
+      cacheHits: this.requests.filter((r) => r.cacheHit).length,
+      failed: this.requests.filter((r) => r.error !== undefined).length,
+      retries: network.reduce((n, r) => n + r.attempts - 1, 0),
+      bytes: this.requests.reduce((n, r) => n + r.bytes, 0),
+      api: this.requests.filter((r) => r.path === "api").length,
+      html: this.requests.filter((r) => r.path === "html").length,
+      statuses,
+      latencyMs:
+        latencies.length > 0
+          ? {
+              mean: Math.round(
+                latencies.reduce((a, b) => a + b, 0) / latencies.length
+              ),
+              p50: percentile(latencies, 50),
+              p95: percentile(latencies, 95),
+              max: latencies.at(-1)!,
+            }
+          : undefined,
+      diagnostics: { ...this.diagnostics },
+    };
+  }
+}
+
+/**
+ * Options that log every fetch and diagnostic and feed them to `metrics`.
+ * Fetches log at debug (warn when they fail); retries and fallbacks log at warn.
+ */
+export function instrument(
+  opts: ScrapeOptions,
+  { logger, metrics }: InstrumentOptions
+): ScrapeOptions {
+  return {
+    ...opts,
+    onMetric: (metric) => {
+      metrics?.record(metric);
+      if (metric.error) logger?.warn("request-failed", { ...metric });
+      else logger?.debug("request", { ...metric });
+      opts.onMetric?.(metric);
+    },
+    onDiagnostic: (event) => {
+      metrics?.recordDiagnostic(event);
+      const { type, ...fields } = event;
+      logger?.warn(type, fields);
+      opts.onDiagnostic?.(event);
+    },
+  };
+}
@@ -0,0 +1,7 @@
+// filename: ms.d.ts
+// Description: Types for the `ms` package, which ships none. Only the string form cli.ts uses is declared.
+
+declare module "ms" {
+  /** Milliseconds for a duration like "500ms", "10s" or "6h"; undefined when it doesn't parse. */
+  export default function ms(value: string): number | undefined;
+}
@@ -0,0 +1,79 @@
+// filename: output.ts
+// Description: Render result records as JSON, NDJSON, CSV or an aligned plain-text table.
+// Notes:
+// - JSON keeps the full result (a single object stays an object); the other formats print one line per record.
+// - CSV and table output only show the columns a command picks; use JSON or NDJSON for every field.
+
+export type OutputFormat = "json" | "ndjson" | "csv" | "table";
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = [
+  "json",
+  "ndjson",
+  "csv",
+  "table",
+];
+
+export interface Column<T> {
+  header: string;
+  value: (record: T) => unknown;
+}
+
+export function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function tableCell(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "-";
+  // Long quotes would stretch every row; the full text is in the other formats
+  const text = String(value).replace(/\s+/g, " ");
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+}
+
+/**
+ * Format one record or a list of them (without a trailing newline).
+ */
+export function formatOutput<T>(
+  data: T | T[],
+  format: OutputFormat,
+  columns: Column<T>[]
+): string {
+  if (format === "json") return JSON.stringify(data, null, 2);
+
+  const records = Array.isArray(data) ? data : [data];
+  if (format === "ndjson") {
+    return records.map((r) => JSON.stringify(r)).join("\n");
+  }
+
+  const values = records.map((r) => columns.map((c) => c.value(r)));
+  if (format === "csv") {
+    return [
+      columns.map((c) => csvCell(c.header)).join(","),
+      ...values.map((row) => row.map(csvCell).join(",")),
+    ].join("\n");
+  }
+
+  const cells = values.map((row) => row.map(tableCell));
+  const widths = columns.map((c, i) =>
+    Math.max(c.header.length, ...cells.map((r) => r[i]!.length))
+  );
+  // A column is right-aligned when every value in it is a number
+  const numeric = columns.map(
+    (_, i) =>
+      values.length > 0 &&
+      values.every((r) => r[i] === undefined || typeof r[i] === "number")
+  );
+  const line = (row: string[]) =>
+    row
+      .map((v, i) =>
+        numeric[i] ? v.padStart(widths[i]!) : v.padEnd(widths[i]!)
+      )
+      .join("  ")
+      .trimEnd();
+  return [
+    line(columns.map((c) => c.header)),
+    widths.map((w) => "-".repeat(w)).join("  "),
+    ...cells.map(line),
+  ].join("\n");
+}
@@ -0,0 +1,262 @@
+// filename: platforms.ts
+// Description: Platform registry (slugs, display names, aliases) and Metacritic game URL construction.
+// Notes:
+// - Lookups are exact after normalizing case and punctuation, so "PC Engine" is not "pc"
+//   and "Nintendo Switch 2" is not "switch". Anything else is unknown, never guessed.
+
+export type Platform =
+  | "pc"
+  | "mac"
+  | "linux"
+  | "playstation-5"
+  | "playstation-4"
+  | "playstation-3"
+  | "playstation-2"
+  | "playstation"
+  | "psp"
+  | "vita"
+  | "xbox-series-x"
+  | "xbox-one"
+  | "xbox-360"
+  | "xbox"
+  | "nintendo-switch-2"
+  | "switch"
+  | "wii-u"
+  | "wii"
+  | "gamecube"
+  | "nintendo-64"
+  | "3ds"
+  | "ds"
+  | "game-boy-advance"
+  | "dreamcast"
+  | "ios"
+  | "android"
+  | "stadia";
+
+export interface PlatformInfo {
+  slug: Platform; // Metacritic's URL segment, e.g. /game/switch/<game>/
+  name: string; // Display name as Metacritic shows it
+  aliases: string[]; // Other names and slugs seen in the wild
+  manufacturer?: string; // Unset for open platforms like PC and Linux
+  generation?: number; // Console generation, e.g. 9 for PS5; unset for non-consoles
+}
+
+const REGISTRY: Record<Platform, Omit<PlatformInfo, "slug">> = {
+  pc: { name: "PC", aliases: ["Windows", "Microsoft Windows"] },
+  mac: {
+    name: "Mac",
+    aliases: ["Macintosh", "macOS", "OS X"],
+    manufacturer: "Apple",
+  },
+  linux: { name: "Linux", aliases: [] },
+  "playstation-5": {
+    name: "PlayStation 5",
+    aliases: ["PS5"],
+    manufacturer: "Sony",
+    generation: 9,
+  },
+  "playstation-4": {
+    name: "PlayStation 4",
+    aliases: ["PS4"],
+    manufacturer: "Sony",
+    generation: 8,
+  },
+  "playstation-3": {
+    name: "PlayStation 3",
+    aliases: ["PS3"],
+    manufacturer: "Sony",
+    generation: 7,
+  },
+  "playstation-2": {
+    name: "PlayStation 2",
+    aliases: ["PS2"],
+    manufacturer: "Sony",
+    generation: 6,
+  },
+  playstation: {
+    name: "PlayStation",
+    aliases: ["PS1", "PSX", "PlayStation 1"],
+    manufacturer: "Sony",
+    generation: 5,
+  },
+  psp: {
+    name: "PSP",
+    aliases: ["PlayStation Portable"],
+    manufacturer: "Sony",
+    generation: 7,
+  },
+  vita: {
+    name: "PlayStation Vita",
+    aliases: ["PS Vita", "playstation-vita"],
+    manufacturer: "Sony",
+    generation: 8,
+  },
+  "xbox-series-x": {
+    name: "Xbox Series X",
+    aliases: ["Xbox Series S", "Xbox Series X|S", "Xbox Series X/S", "XSX"],
+    manufacturer: "Microsoft",
+    generation: 9,
+  },
+  "xbox-one": {
+    name: "Xbox One",
+    aliases: ["XB1"],
+    manufacturer: "Microsoft",
+    generation: 8,
+  },
+  "xbox-360": {
+    name: "Xbox 360",
+    aliases: ["X360"],
+    manufacturer: "Microsoft",
+    generation: 7,
+  },
+  xbox: {
+    name: "Xbox",
+    aliases: ["Original Xbox"],
+    manufacturer: "Microsoft",
+    generation: 6,
+  },
+  "nintendo-switch-2": {
+    name: "Nintendo Switch 2",
+    aliases: ["Switch 2", "switch-2"],
+    manufacturer: "Nintendo",
+    generation: 9,
+  },
+  switch: {
+    name: "Nintendo Switch",
+    aliases: ["nintendo-switch", "NS"],
+    manufacturer: "Nintendo",
+    generation: 8,
+  },
+  "wii-u": {
+    name: "Wii U",
+    aliases: ["Nintendo Wii U"],
+    manufacturer: "Nintendo",
+    generation: 8,
+  },
+  wii: {
+    name: "Wii",
+    aliases: ["Nintendo Wii"],
+    manufacturer: "Nintendo",
+    generation: 7,
+  },
+  gamecube: {
+    name: "GameCube",
+    aliases: ["Nintendo GameCube", "GCN"],
+    manufacturer: "Nintendo",
+    generation: 6,
+  },
+  "nintendo-64": {
+    name: "Nintendo 64",
+    aliases: ["N64"],
+    manufacturer: "Nintendo",
+    generation: 5,
+  },
+  "3ds": {
+    name: "3DS",
+    aliases: ["Nintendo 3DS"],
+    manufacturer: "Nintendo",
+    generation: 8,
+  },
+  ds: {
+    name: "DS",
+    aliases: ["Nintendo DS"],
+    manufacturer: "Nintendo",
+    generation: 7,
+  },
+  "game-boy-advance": {
+    name: "Game Boy Advance",
+    aliases: ["GBA"],
+    manufacturer: "Nintendo",
+    generation: 6,
+  },
+  dreamcast: {
+    name: "Dreamcast",
+    aliases: ["Sega Dreamcast"],
+    manufacturer: "Sega",
+    generation: 6,
+  },
+  ios: {
+    name: "iOS (iPhone/iPad)",
+    aliases: ["iOS", "iPhone", "iPad", "iPhone/iPad"],
+    manufacturer: "Apple",
+  },
+  android: { name: "Android", aliases: [], manufacturer: "Google" },
+  stadia: {
+    name: "Stadia",
+    aliases: ["Google Stadia"],
+    manufacturer: "Google",
+  },
+};
+
+/**
+ * Every known platform, in registry order.
+ */
+export const PLATFORMS: readonly PlatformInfo[] = Object.entries(REGISTRY).map(
+  ([slug, info]) => ({ slug: slug as Platform, ...info })
+);
+
+// "PlayStation 5", "playstation-5" and "PS5" all become "playstation 5" / "ps5"
+function lookupKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const BY_KEY = new Map<string, PlatformInfo>();
+for (const info of PLATFORMS) {
+  for (const key of [info.slug, info.name, ...info.aliases]) {
+    BY_KEY.set(lookupKey(key), info);
+  }
+}
+
+/**
+ * Look a platform up by slug, display name or alias.
+ */
+export function getPlatform(value?: string): PlatformInfo | undefined {
+  return value ? BY_KEY.get(lookupKey(value)) : undefined;
+}
+
+export function isPlatform(value: unknown): value is Platform {
+  return typeof value === "string" && Object.hasOwn(REGISTRY, value);
+}
+
+/**
+ * Display name for a slug (the reverse of normalizePlatform).
+ */
+export function platformName(slug: Platform): string {
+  return REGISTRY[slug].name;
+}
+
+/**
+ * Canonical slug for any known spelling of a platform; undefined when the registry doesn't know it.
+ */
+export function normalizePlatform(raw?: string): Platform | undefined {
+  return getPlatform(raw)?.slug;
+}
+
+/**
+ * Normalize a list of platform names, deduplicating known ones and
+ * collecting the ones the registry doesn't recognize.
+ */
+export function resolvePlatforms(raw: (string | undefined)[]): {
+  platforms: Platform[];
+  unknown: string[];
+} {
+  const platforms = new Set<Platform>();
+  const unknown = new Set<string>();
+  for (const value of raw) {
+    const trimmed = value?.trim();
+    if (!trimmed) continue;
+    const slug = normalizePlatform(trimmed);
+    if (slug) platforms.add(slug);
+    else unknown.add(trimmed);
+  }
+  return { platforms: Array.from(platforms), unknown: Array.from(unknown) };
+}
+
+export function buildGameUrl(slug: string, platform?: string): string {
+  return platform
+    ? `https://www.metacritic.com/game/${platform}/${slug}/`
+    : `https://www.metacritic.com/game/${slug}/`;
+}
@@ -0,0 +1,271 @@
+// filename: politeness.ts
+// Description: robots.txt enforcement, Crawl-delay and the client's identity (User-Agent and contact).
+// Notes:
+// - robots.txt is fetched once per origin and cached for 24 hours (RFC 9309). Rules come from the
+//   groups naming our product token (the User-Agent up to the first "/"), falling back to "*".
+// - A missing robots.txt (any 4xx) allows everything; an unreachable one (5xx, network error)
+//   disallows everything, and is fetched again a minute later.
+// - Enforced by default for every live transport, RecordingTransport and custom ones included.
+//   Transports marked `live: false` (ReplayTransport, test stubs) opt in with `robotsTxt: true`;
+//   `robotsTxt: false` turns it off.
+
+import { AbortedError, RobotsDisallowedError } from "./errors.ts";
+import type { ScrapeOptions } from "./metacritic-game-scraper.ts";
+import { scheduleRequest, setCrawlDelay } from "./request-scheduler.ts";
+import { undiciTransport } from "./transport.ts";
+
+export const DEFAULT_USER_AGENT = "metacritic-scraper/1.0";
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string; // Path prefix; `*` matches any run of characters, a trailing `$` anchors the end
+}
+
+export interface RobotsGroup {
+  agents: string[]; // Lowercased User-agent lines; "*" matches everyone
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL_MS = 60 * 1000;
+const MAX_ROBOTS_BYTES = 500 * 1024; // RFC 9309 lets crawlers ignore anything past 500 KiB
+
+interface RobotsEntry {
+  robots: Promise<RobotsTxt | undefined>; // undefined when unreachable
+  expiresAt: number;
+}
+
+// One entry per origin, shared by every request in the process like the schedulers
+const robotsCache = new Map<string, RobotsEntry>();
+
+/**
+ * Parse robots.txt into its user-agent groups. Unknown lines are ignored.
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | undefined;
+  // Consecutive User-agent lines share one group; a User-agent after rules starts a new one
+  let collectingAgents = false;
+
+  for (const raw of text.slice(0, MAX_ROBOTS_BYTES).split(/\r?\n|\r/)) {
+    const line = raw.replace(/#.*/, "").trim();
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    if (key === "sitemap") {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    collectingAgents = false;
+    if (!current) continue; // Rules before any User-agent line belong to no group
+
+    if (key === "allow" || key === "disallow") {
+      // An empty Disallow allows everything, same as no rule
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelaySeconds = seconds;
+      }
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * The robots.txt product token of a User-Agent, e.g. "metacritic-scraper".
+ */
+export function productToken(userAgent: string): string {
+  return (userAgent.split(/[/\s]/)[0] ?? "").toLowerCase();
+}
+
+/**
+ * The groups that apply to `userAgent`, merged: those naming its product token, or else "*".
+ */
+function groupFor(
+  robots: RobotsTxt,
+  userAgent: string
+): Omit<RobotsGroup, "agents"> {
+  const token = productToken(userAgent);
+  let groups = robots.groups.filter((g) => g.agents.includes(token));
+  if (groups.length === 0) {
+    groups = robots.groups.filter((g) => g.agents.includes("*"));
+  }
+  const delays = groups
+    .map((g) => g.crawlDelaySeconds)
+    .filter((d): d is number => d !== undefined);
+  return {
+    rules: groups.flatMap((g) => g.rules),
+    crawlDelaySeconds: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * The rule deciding `url` for `userAgent`: the longest matching pattern wins, Allow on a tie.
+ * Undefined means no rule matched, which allows the URL.
+ */
+export function matchRobotsRule(
+  robots: RobotsTxt,
+  url: string,
+  userAgent = DEFAULT_USER_AGENT
+): RobotsRule | undefined {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let best: RobotsRule | undefined;
+  for (const rule of groupFor(robots, userAgent).rules) {
+    if (!patternMatches(rule.pattern, path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best;
+}
+
+export function isAllowedByRobots(
+  robots: RobotsTxt,
+  url: string,
+  userAgent = DEFAULT_USER_AGENT
+): boolean {
+  return matchRobotsRule(robots, url, userAgent)?.allow ?? true;
+}
+
+/**
+ * The User-Agent to send: `opts.userAgent` (or the default) with the contact address appended.
+ */
+export function userAgentFor(opts: ScrapeOptions): string {
+  const userAgent = opts.userAgent ?? DEFAULT_USER_AGENT;
+  return opts.contact ? `${userAgent} (+${opts.contact})` : userAgent;
+}
+
+/**
+ * Headers identifying the client. An email contact is also sent as `From` (RFC 9110).
+ * Empty when neither `userAgent` nor `contact` is set, since DEFAULT_HEADERS already carries the default.
+ */
+export function identityHeaders(opts: ScrapeOptions): Record<string, string> {
+  if (!opts.userAgent && !opts.contact) return {};
+  const headers: Record<string, string> = { "User-Agent": userAgentFor(opts) };
+  if (opts.contact && /^[^\s@:/]+@[^\s@]+$/.test(opts.contact)) {
+    headers.From = opts.contact;
+  }
+  return headers;
+}
+
+async function fetchRobotsTxt(
+  robotsUrl: string,
+  opts: ScrapeOptions
+): Promise<RobotsTxt | undefined> {
+  const transport = opts.transport ?? undiciTransport;
+  try {
+    const res = await scheduleRequest(robotsUrl, opts, () =>
+      transport.request({
+        url: robotsUrl,
+        headers: { "User-Agent": userAgentFor(opts), Accept: "text/plain" },
+        timeoutMs: opts.timeoutMs ?? 15000,
+        signal: opts.signal,
+      })
+    );
+    if (res.statusCode >= 200 && res.statusCode < 300) {
+      return parseRobotsTxt(res.body);
+    }
+    // No robots.txt (or not ours to read): no restrictions
+    if (res.statusCode < 500) return { groups: [], sitemaps: [] };
+    return undefined;
+  } catch (err) {
+    if (opts.signal?.aborted) throw new AbortedError(robotsUrl, { cause: err });
+    return undefined;
+  }
+}
+
+/**
+ * The cached robots.txt for a URL's origin, fetching it on first use or after it expires.
+ */
+export async function getRobotsTxt(
+  url: string,
+  opts: ScrapeOptions = {}
+): Promise<RobotsTxt | undefined> {
+  const origin = new URL(url).origin;
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    // If another caller's fetch was aborted, fetch it again under our own signal
+    return cached.robots.catch(() => getRobotsTxt(url, opts));
+  }
+
+  const entry: RobotsEntry = {
+    robots: fetchRobotsTxt(`${origin}/robots.txt`, opts),
+    expiresAt: Date.now() + ROBOTS_TTL_MS,
+  };
+  robotsCache.set(origin, entry);
+  try {
+    const robots = await entry.robots;
+    if (!robots) entry.expiresAt = Date.now() + ROBOTS_ERROR_TTL_MS;
+    return robots;
+  } catch (err) {
+    // Aborted: the next caller fetches it again
+    robotsCache.delete(origin);
+    throw err;
+  }
+}
+
+/**
+ * Throw RobotsDisallowedError unless robots.txt allows `url` for our User-Agent,
+ * and apply the host's Crawl-delay to the scheduler.
+ */
+export async function checkRobotsTxt(
+  url: string,
+  opts: ScrapeOptions = {}
+): Promise<void> {
+  const robots = await getRobotsTxt(url, opts);
+  if (!robots) throw new RobotsDisallowedError(url);
+
+  const userAgent = opts.userAgent ?? DEFAULT_USER_AGENT;
+  const { crawlDelaySeconds } = groupFor(robots, userAgent);
+  setCrawlDelay(
+    url,
+    crawlDelaySeconds !== undefined ? crawlDelaySeconds * 1000 : undefined
+  );
+
+  const rule = matchRobotsRule(robots, url, userAgent);
+  if (rule && !rule.allow) {
+    throw new RobotsDisallowedError(url, `Disallow: ${rule.pattern}`);
+  }
+}
+
+/**
+ * Forget every cached robots.txt, e.g. between tests.
+ */
+export function clearRobotsCache(): void {
+  robotsCache.clear();
+}
@@ -0,0 +1,261 @@
+// filename: publications.ts
+// Description: Critic publication profiles: every game review an outlet has on Metacritic, with scoring statistics.
+// Usage:
+//   bun metacritic-game-scraper.ts publication ign --max-pages=5
+// Notes:
+// - Pages through /publication/<slug>/?filter=games the same way iterateReviews pages a game's reviews.
+// - Deviation is score minus the game's metascore: negative means the outlet scores harsher than the consensus.
+
+import { load as loadHTML, type Cheerio } from "cheerio";
+import type { AnyNode } from "domhandler";
+import { normalizeDate } from "./dates.ts";
+import { fetchText } from "./http.ts";
+import type {
+  Review,
+  ScoreDistribution,
+  ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+import { buildGameUrl, normalizePlatform, type Platform } from "./platforms.ts";
+import { selectFirst } from "./selectors.ts";
+
+export interface PublicationReview extends Review {
+  type: "critic";
+  gameSlug: string;
+  gameName?: string;
+  gameUrl: string;
+  platform?: Platform; // When the listing names the reviewed platform
+  metascore?: number; // The game's metascore, as shown next to the review
+}
+
+export interface PublicationStats {
+  reviewCount: number;
+  scoredCount: number; // Reviews with a score
+  meanScore?: number; // 0–100, rounded to one decimal
+  distribution: ScoreDistribution; // Metacritic's bands: 75+ positive, 50–74 mixed, below 50 negative
+  comparedCount: number; // Scored reviews whose game has a metascore
+  averageDeviation?: number; // Mean of (score - metascore); negative = harsher than the metascore
+  averageAbsoluteDeviation?: number; // Mean of |score - metascore|
+}
+
+export interface PublicationProfile {
+  slug: string;
+  name: string;
+  url: string;
+  reviews: PublicationReview[]; // Newest first, as listed
+  stats: PublicationStats;
+}
+
+export interface PublicationOptions {
+  maxPages?: number; // default 50
+  maxReviews?: number; // default unlimited
+}
+
+/**
+ * Metacritic's slug for an outlet name: "PC Gamer" -> "pc-gamer". Slugs pass through unchanged.
+ */
+export function publicationSlug(nameOrSlug: string): string {
+  return nameOrSlug
+    .toLowerCase()
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function publicationUrl(slug: string, page: number): string {
+  const params = new URLSearchParams({ filter: "games" });
+  if (page > 0) params.set("page", String(page));
+  return `https://www.metacritic.com/publication/${slug}/?${params}`;
+}
+
+function parseScore(text: string): number | undefined {
+  return /^\d+$/.test(text) ? Number(text) : undefined;
+}
+
+function parsePublicationReview(
+  $el: Cheerio<AnyNode>,
+  outlet: string
+): PublicationReview | undefined {
+  const find = (selector: string) => $el.find(selector);
+
+  const href = selectFirst(find, "game", [
+    { selector: '[data-testid="review-product-title"] a', attr: "href" },
+    { selector: ".c-siteReviewHeader_title a", attr: "href" },
+    { selector: ".review_product a", attr: "href" },
+    { selector: 'a[href^="/game/"]', attr: "href" },
+  ]);
+  const m = href.match(/\/game\/(?:([^/]+)\/)?([^/?#]+)\/?(?:[?#].*)?$/);
+  if (!m?.[2]) return undefined;
+  const platform =
+    normalizePlatform(m[1]) ??
+    normalizePlatform(
+      selectFirst(find, "platform", [
+        '[data-testid="product-platform"]',
+        ".review_platform",
+      ])
+    );
+
+  const gameName = selectFirst(find, "gameName", [
+    '[data-testid="review-product-title"]',
+    ".c-siteReviewHeader_title",
+    ".review_product a",
+  ]);
+  const dateText = selectFirst(find, "date", [
+    '[data-testid="critic-date"]',
+    ".c-siteReview_reviewDate",
+    ".date",
+  ]);
+  const date = normalizeDate(dateText);
+  const quote = selectFirst(find, "quote", [
+    '[data-testid="review-quote"]',
+    ".c-siteReview_quote",
+    ".review_body",
+  ]);
+  const url = selectFirst(find, "url", [
+    { selector: 'a[href^="http"]', attr: "href" },
+    { selector: ".full_review a", attr: "href" },
+  ]);
+
+  return {
+    type: "critic",
+    source: outlet,
+    quote: quote || undefined,
+    score: parseScore(
+      selectFirst(find, "score", [
+        '[data-testid="critic-score"]',
+        ".c-siteReviewScore_background-critic_medium",
+        ".review_score .metascore_w",
+      ])
+    ),
+    date: date?.iso ?? (dateText || undefined),
+    dateNormalized: date,
+    url: url || undefined,
+    gameSlug: m[2],
+    gameName: gameName || undefined,
+    gameUrl: buildGameUrl(m[2], platform),
+    platform,
+    metascore: parseScore(
+      selectFirst(find, "metascore", [
+        '[data-testid="product-metascore"]',
+        ".c-siteReviewScore_background-general",
+        ".brief_metascore .metascore_w",
+      ])
+    ),
+  };
+}
+
+/**
+ * Yield an outlet's game reviews page by page, newest first.
+ * `onName` receives the outlet's display name once the first page is loaded.
+ */
+export async function* iteratePublicationReviews(
+  nameOrSlug: string,
+  options: PublicationOptions = {},
+  opts: ScrapeOptions = {},
+  onName?: (name: string) => void
+): AsyncGenerator<PublicationReview> {
+  const slug = publicationSlug(nameOrSlug);
+  const maxPages = Math.max(1, options.maxPages ?? 50);
+  const maxReviews = options.maxReviews ?? Infinity;
+  const seen = new Set<string>();
+  let yielded = 0;
+
+  for (let page = 0; page < maxPages; page++) {
+    const html = await fetchText(publicationUrl(slug, page), opts, "reviews");
+    const $ = loadHTML(html);
+    const name =
+      selectFirst((s) => $(s), "publication", [
+        '[data-testid="publication-name"]',
+        ".c-pageProfile_name",
+        ".publication_title",
+      ]) || nameOrSlug;
+    if (page === 0) onName?.(name);
+
+    const cards = $(
+      '[data-testid="publication-review"], .c-pageProfile-wrapper .c-siteReview, li.review.critic_review'
+    );
+    if (cards.length === 0) break;
+
+    let newOnPage = 0;
+    for (const el of cards.toArray()) {
+      const review = parsePublicationReview($(el), name);
+      if (!review) continue;
+      const key = [review.gameUrl, review.date, review.score].join("|");
+      if (seen.has(key)) continue;
+      seen.add(key);
+      newOnPage++;
+      yield review;
+      if (++yielded >= maxReviews) return;
+    }
+
+    // Like game review pages, past the end the last page repeats
+    if (newOnPage === 0) break;
+    const hasNext =
+      $('a[rel="next"], .page_nav .next a, [data-testid="pagination-next"]')
+        .length > 0;
+    if (!hasNext) break;
+  }
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+/**
+ * Count, mean, distribution and deviation from the metascore for a set of reviews.
+ */
+export function computePublicationStats(
+  reviews: PublicationReview[]
+): PublicationStats {
+  const scores = reviews
+    .map((r) => r.score)
+    .filter((s): s is number => s !== undefined);
+  const deviations = reviews
+    .filter((r) => r.score !== undefined && r.metascore !== undefined)
+    .map((r) => r.score! - r.metascore!);
+  const mean = (values: number[]) =>
+    values.length > 0
+      ? round1(values.reduce((a, b) => a + b, 0) / values.length)
+      : undefined;
+
+  return {
+    reviewCount: reviews.length,
+    scoredCount: scores.length,
+    meanScore: mean(scores),
+    distribution: {
+      positive: scores.filter((s) => s >= 75).length,
+      mixed: scores.filter((s) => s >= 50 && s < 75).length,
+      negative: scores.filter((s) => s < 50).length,
+    },
+    comparedCount: deviations.length,
+    averageDeviation: mean(deviations),
+    averageAbsoluteDeviation: mean(deviations.map(Math.abs)),
+  };
+}
+
+/**
+ * Collect an outlet's game reviews and their statistics.
+ */
+export async function getPublicationProfile(
+  nameOrSlug: string,
+  options: PublicationOptions = {},
+  opts: ScrapeOptions = {}
+): Promise<PublicationProfile> {
+  const slug = publicationSlug(nameOrSlug);
+  let name = nameOrSlug;
+  const reviews: PublicationReview[] = [];
+  for await (const review of iteratePublicationReviews(
+    slug,
+    options,
+    opts,
+    (n) => (name = n)
+  )) {
+    reviews.push(review);
+  }
+  return {
+    slug,
+    name,
+    url: `https://www.metacritic.com/publication/${slug}/`,
+    reviews,
+    stats: computePublicationStats(reviews),
+  };
+}
@@ -0,0 +1,443 @@
+// filename: releases.ts
+// Description: Upcoming and newly released games for a date window, exported as an iCalendar file or a JSON/RSS feed.
+// Usage:
+//   bun metacritic-game-scraper.ts releases --platform=ps5 --format=ics > releases.ics
+//   bun metacritic-game-scraper.ts releases --from=2026-11-01 --to=2026-12-31 --format=rss --state=releases.json
+// Notes:
+// - Reads the "coming soon" and "new releases" listings (browse.ts) newest first and keeps the titles dated within the window.
+// - One event per title, identified by its slug, so a re-export updates the same calendar entry or feed item.
+//   Its revision (iCalendar SEQUENCE) goes up when its date, platforms, status or scores change, e.g. when reviews land.
+// - Revisions carry over from the previous export's events (`previous`, the CLI's --state file). Previous events
+//   that left the listings stay while they're in the window, and released ones without a metascore are looked up again.
+
+import { iterateBrowse, type BrowseReleaseType } from "./browse.ts";
+import {
+  compareDates,
+  dateTime,
+  isInDateRange,
+  normalizeDate,
+  type NormalizedDate,
+} from "./dates.ts";
+import { AbortedError } from "./errors.ts";
+import {
+  getGameDetails,
+  type ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+import { platformName, type Platform } from "./platforms.ts";
+
+export type ReleaseListing = "upcoming" | "new";
+
+export type ReleaseStatus = "upcoming" | "released" | "reviewed";
+
+export type ReleaseFeedFormat = "ics" | "json" | "rss";
+
+export const RELEASE_FEED_FORMATS: readonly ReleaseFeedFormat[] = [
+  "ics",
+  "json",
+  "rss",
+];
+
+export interface ReleaseEvent {
+  id: string; // The game's slug; stable across exports
+  name: string;
+  url: string; // The game's Metacritic page
+  platforms: Platform[];
+  releaseDate: NormalizedDate;
+  status: ReleaseStatus; // "reviewed" once it has a metascore
+  metascore?: number; // 0–100
+  userscore?: number; // 0–10
+  sequence: number; // Revision, starting at 0
+  updatedAt: string; // ISO timestamp of the latest revision
+}
+
+export interface ReleaseCalendarOptions {
+  from?: Date; // default 30 days ago, so recent releases stay until their reviews land
+  to?: Date; // default 90 days from now
+  platform?: Platform;
+  listings?: ReleaseListing[]; // default both
+  includeUndated?: boolean; // default false - also list month, quarter and year dates starting in the window
+  maxResults?: number; // default 240 - titles kept per listing, earliest first within the window
+  previous?: ReleaseEvent[]; // The last export's events
+  refreshScores?: boolean; // default true - look up previous released events that left the listings unreviewed
+  now?: Date;
+}
+
+export interface ReleaseFeedOptions {
+  title?: string; // default "Metacritic game releases"
+  feedUrl?: string; // Where the feed is published, for JSON Feed's feed_url
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const LISTING_RELEASE_TYPE: Record<ReleaseListing, BrowseReleaseType> = {
+  upcoming: "coming-soon",
+  new: "new-release",
+};
+
+const DEFAULT_TITLE = "Metacritic game releases";
+const HOME_PAGE_URL = "https://www.metacritic.com/browse/game/";
+
+function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
+function releaseStatus(
+  releaseDate: NormalizedDate,
+  metascore: number | undefined,
+  now: Date
+): ReleaseStatus {
+  if (metascore !== undefined) return "reviewed";
+  const t = dateTime(releaseDate);
+  // Coarse dates count as released only once their whole period could have started
+  return t !== undefined &&
+    releaseDate.precision === "day" &&
+    t <= now.getTime()
+    ? "released"
+    : "upcoming";
+}
+
+function inWindow(
+  date: NormalizedDate | undefined,
+  from: Date,
+  to: Date,
+  includeUndated: boolean
+): date is NormalizedDate {
+  if (!date || (date.precision !== "day" && !includeUndated)) return false;
+  return isInDateRange(date, from, to);
+}
+
+function samePlatforms(a: Platform[], b: Platform[]): boolean {
+  return a.length === b.length && a.every((p) => b.includes(p));
+}
+
+/**
+ * Carry revisions over from `previous`: an event keeps its sequence and updatedAt
+ * while nothing changed, and gets the next sequence when something did.
+ */
+export function mergeReleaseEvents(
+  previous: ReleaseEvent[],
+  current: ReleaseEvent[],
+  now: Date = new Date()
+): ReleaseEvent[] {
+  const byId = new Map(previous.map((e) => [e.id, e]));
+  return current.map((event) => {
+    const prev = byId.get(event.id);
+    if (!prev) return { ...event, sequence: 0, updatedAt: now.toISOString() };
+    const changed =
+      prev.name !== event.name ||
+      !samePlatforms(prev.platforms, event.platforms) ||
+      prev.releaseDate.iso !== event.releaseDate.iso ||
+      prev.releaseDate.precision !== event.releaseDate.precision ||
+      prev.status !== event.status ||
+      prev.metascore !== event.metascore ||
+      prev.userscore !== event.userscore;
+    return changed
+      ? { ...event, sequence: prev.sequence + 1, updatedAt: now.toISOString() }
+      : { ...event, sequence: prev.sequence, updatedAt: prev.updatedAt };
+  });
+}
+
+// Earliest first, then by name
+function byReleaseDate(a: ReleaseEvent, b: ReleaseEvent): number {
+  return (
+    compareDates(a.releaseDate, b.releaseDate) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Games releasing within the window, earliest first, with revisions carried over from `options.previous`.
+ */
+export async function getReleaseCalendar(
+  options: ReleaseCalendarOptions = {},
+  opts: ScrapeOptions = {}
+): Promise<ReleaseEvent[]> {
+  const now = options.now ?? new Date();
+  const from =
+    options.from ?? startOfDay(new Date(now.getTime() - 30 * DAY_MS));
+  const to = options.to ?? startOfDay(new Date(now.getTime() + 90 * DAY_MS));
+  const includeUndated = options.includeUndated ?? false;
+  const found = new Map<string, ReleaseEvent>();
+
+  for (const listing of options.listings ?? ["upcoming", "new"]) {
+    const listed = new Map<string, ReleaseEvent>();
+    // Read down to the window's start, since "coming soon" begins with the furthest-out
+    // titles; maxResults applies once the listing is narrowed to the window
+    for await (const result of iterateBrowse(
+      {
+        platform: options.platform,
+        yearFrom: from.getUTCFullYear(),
+        yearTo: to.getUTCFullYear(),
+        sort: "release-date",
+        releaseType: LISTING_RELEASE_TYPE[listing],
+      },
+      opts,
+      Infinity
+    )) {
+      const releaseDate = normalizeDate(result.releaseDate);
+      // Newest first: everything after this released before the window
+      if (
+        releaseDate?.precision === "day" &&
+        dateTime(releaseDate)! < from.getTime()
+      ) {
+        break;
+      }
+      if (!inWindow(releaseDate, from, to, includeUndated)) continue;
+
+      const seen = listed.get(result.slug);
+      if (seen) {
+        seen.platforms = [...new Set([...seen.platforms, ...result.platforms])];
+        continue;
+      }
+      listed.set(result.slug, {
+        id: result.slug,
+        name: result.name,
+        url: result.url,
+        platforms: result.platforms,
+        releaseDate,
+        status: releaseStatus(releaseDate, result.metascore, now),
+        metascore: result.metascore,
+        userscore: result.userscore,
+        sequence: 0,
+        updatedAt: now.toISOString(),
+      });
+    }
+
+    const kept = [...listed.values()]
+      .sort(byReleaseDate)
+      .slice(0, options.maxResults ?? 240);
+    for (const event of kept) {
+      const seen = found.get(event.id);
+      if (seen) {
+        seen.platforms = [...new Set([...seen.platforms, ...event.platforms])];
+      } else {
+        found.set(event.id, event);
+      }
+    }
+  }
+
+  // Titles that left the listings (e.g. no longer "new") but are still in the window
+  for (const prev of options.previous ?? []) {
+    if (found.has(prev.id)) continue;
+    if (!inWindow(prev.releaseDate, from, to, includeUndated)) continue;
+    let event: ReleaseEvent = {
+      ...prev,
+      status: releaseStatus(prev.releaseDate, prev.metascore, now),
+    };
+    if (event.status === "released" && (options.refreshScores ?? true)) {
+      try {
+        const game = await getGameDetails(prev.url, opts);
+        event = {
+          ...event,
+          metascore: game.metascore,
+          userscore: game.userscore,
+          status: releaseStatus(prev.releaseDate, game.metascore, now),
+        };
+      } catch (err) {
+        if (err instanceof AbortedError) throw err;
+        // Keep what we had; the next export tries again
+      }
+    }
+    found.set(prev.id, event);
+  }
+
+  return mergeReleaseEvents(
+    options.previous ?? [],
+    [...found.values()],
+    now
+  ).sort(byReleaseDate);
+}
+
+function eventTitle(event: ReleaseEvent): string {
+  return event.metascore !== undefined
+    ? `${event.name} (Metascore ${event.metascore})`
+    : event.name;
+}
+
+function eventDescription(event: ReleaseEvent): string {
+  const lines = [
+    `Platforms: ${event.platforms.map(platformName).join(", ") || "unknown"}`,
+    `Release date: ${event.releaseDate.original}`,
+  ];
+  if (event.metascore !== undefined)
+    lines.push(`Metascore: ${event.metascore}`);
+  if (event.userscore !== undefined)
+    lines.push(`Userscore: ${event.userscore}`);
+  lines.push(event.url);
+  return lines.join("\n");
+}
+
+// 20261114T090000Z
+function icsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+// 20261114, for all-day events
+function icsDate(t: number): string {
+  return new Date(t).toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function icsText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 folds lines longer than 75 octets, continuing with a leading space
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let part = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = "";
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join("\r\n ");
+}
+
+/**
+ * An iCalendar (.ics) file with an all-day VEVENT per release. Dates coarser than
+ * a day go on the first day of their period, marked TENTATIVE.
+ */
+export function toICalendar(
+  events: ReleaseEvent[],
+  options: ReleaseFeedOptions = {}
+): string {
+  const stamp = icsDateTime(options.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//metacritic-scraper//Game Releases//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsText(options.title ?? DEFAULT_TITLE)}`,
+  ];
+  for (const event of events) {
+    const start = dateTime(event.releaseDate);
+    if (start === undefined) continue; // TBA: nothing to put on a calendar
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.id}@metacritic-scraper`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${icsDateTime(new Date(event.updatedAt))}`,
+      `SEQUENCE:${event.sequence}`,
+      `DTSTART;VALUE=DATE:${icsDate(start)}`,
+      `DTEND;VALUE=DATE:${icsDate(start + DAY_MS)}`,
+      `SUMMARY:${icsText(eventTitle(event))}`,
+      `DESCRIPTION:${icsText(eventDescription(event))}`,
+      `URL:${event.url}`,
+      `STATUS:${
+        event.releaseDate.precision === "day" ? "CONFIRMED" : "TENTATIVE"
+      }`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * A JSON Feed 1.1 document with an item per release. Release details are under each item's `_metacritic`.
+ */
+export function toJsonFeed(
+  events: ReleaseEvent[],
+  options: ReleaseFeedOptions = {}
+): string {
+  const feed = {
+    version: "https://jsonfeed.org/version/1.1",
+    title: options.title ?? DEFAULT_TITLE,
+    home_page_url: HOME_PAGE_URL,
+    feed_url: options.feedUrl,
+    items: events.map((event) => {
+      const start = dateTime(event.releaseDate);
+      return {
+        id: event.id,
+        url: event.url,
+        title: eventTitle(event),
+        content_text: eventDescription(event),
+        date_published:
+          start !== undefined ? new Date(start).toISOString() : undefined,
+        date_modified: event.updatedAt,
+        tags: event.platforms,
+        _metacritic: {
+          release_date: event.releaseDate.iso,
+          release_date_text: event.releaseDate.original,
+          release_date_precision: event.releaseDate.precision,
+          status: event.status,
+          metascore: event.metascore,
+          userscore: event.userscore,
+          sequence: event.sequence,
+        },
+      };
+    }),
+  };
+  return JSON.stringify(feed, null, 2);
+}
+
+function xmlText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * An RSS 2.0 feed with an item per release, dated by its latest revision.
+ */
+export function toRss(
+  events: ReleaseEvent[],
+  options: ReleaseFeedOptions = {}
+): string {
+  const now = options.now ?? new Date();
+  const items = events.map((event) =>
+    [
+      "    <item>",
+      `      <title>${xmlText(eventTitle(event))}</title>`,
+      `      <link>${xmlText(event.url)}</link>`,
+      `      <guid isPermaLink="false">${xmlText(event.id)}</guid>`,
+      `      <pubDate>${new Date(event.updatedAt).toUTCString()}</pubDate>`,
+      `      <description>${xmlText(eventDescription(event))}</description>`,
+      ...event.platforms.map(
+        (p) => `      <category>${xmlText(platformName(p))}</category>`
+      ),
+      "    </item>",
+    ].join("\n")
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0">',
+    "  <channel>",
+    `    <title>${xmlText(options.title ?? DEFAULT_TITLE)}</title>`,
+    `    <link>${HOME_PAGE_URL}</link>`,
+    "    <description>Upcoming and new game releases from Metacritic</description>",
+    `    <lastBuildDate>${now.toUTCString()}</lastBuildDate>`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+  ].join("\n");
+}
+
+export function formatReleaseFeed(
+  events: ReleaseEvent[],
+  format: ReleaseFeedFormat,
+  options: ReleaseFeedOptions = {}
+): string {
+  if (format === "ics") return toICalendar(events, options);
+  if (format === "rss") return toRss(events, options);
+  return toJsonFeed(events, options);
+}
@@ -0,0 +1,148 @@
+// filename: request-scheduler.ts
+// Description: Per-host request scheduler shared by every outbound call in the process.
+// Notes:
+// - One scheduler exists per host, so concurrent lookups share the same politeness budget.
+// - Concurrency is capped with p-limit; requests are spaced by the configured delay,
+//   or the host's robots.txt Crawl-delay when that is longer.
+// - When callers configure different limits for the same host, the strictest wins
+//   (lowest concurrency, longest delay), so no caller can loosen another's politeness.
+
+import pLimit, { type LimitFunction } from "p-limit";
+import { setTimeout as sleep } from "node:timers/promises";
+
+export interface SchedulerOptions {
+  concurrency?: number; // default 2
+  delayBetweenRequestsMs?: number; // default 1000
+}
+
+interface HostScheduler {
+  limit: LimitFunction;
+  delayMs: number;
+  nextSlotAt: number; // Epoch ms before which no new request may start
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_DELAY_MS = 1000;
+
+const schedulers = new Map<string, HostScheduler>();
+const crawlDelays = new Map<string, number>(); // host -> robots.txt Crawl-delay in ms
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Concurrency and delay from `opts`, with defaults filled in.
+ * Throws RangeError for values p-limit and the delay math can't use (NaN, negative, fractional concurrency).
+ */
+function schedulerLimits(opts: SchedulerOptions): {
+  concurrency: number;
+  delayMs: number;
+} {
+  const concurrency = opts.concurrency ?? DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(
+      `concurrency must be a positive integer, got ${concurrency}`
+    );
+  }
+  const delayMs = opts.delayBetweenRequestsMs ?? DEFAULT_DELAY_MS;
+  if (!Number.isFinite(delayMs) || delayMs < 0) {
+    throw new RangeError(
+      `delayBetweenRequestsMs must be a finite number >= 0, got ${delayMs}`
+    );
+  }
+  return { concurrency, delayMs };
+}
+
+/**
+ * Get (or lazily create) the scheduler for a host.
+ * Callers with different limits share it, and the strictest wins: the lowest concurrency
+ * and the longest delay any caller asked for, until resetSchedulers().
+ */
+function getHostScheduler(host: string, opts: SchedulerOptions): HostScheduler {
+  const { concurrency, delayMs } = schedulerLimits(opts);
+
+  let scheduler = schedulers.get(host);
+  if (!scheduler) {
+    scheduler = { limit: pLimit(concurrency), delayMs, nextSlotAt: 0 };
+    schedulers.set(host, scheduler);
+    return scheduler;
+  }
+
+  if (concurrency < scheduler.limit.concurrency) {
+    scheduler.limit.concurrency = concurrency;
+  }
+  scheduler.delayMs = Math.max(scheduler.delayMs, delayMs);
+  return scheduler;
+}
+
+/**
+ * Run `task` once the host for `url` has a free slot and the inter-request delay has elapsed.
+ */
+export function scheduleRequest<T>(
+  url: string,
+  opts: SchedulerOptions,
+  task: () => Promise<T>
+): Promise<T> {
+  const host = hostOf(url);
+  const scheduler = getHostScheduler(host, opts);
+
+  return scheduler.limit(async () => {
+    // Reserve the next start slot synchronously so parallel tasks queue behind each other
+    const now = Date.now();
+    const startAt = Math.max(now, scheduler.nextSlotAt);
+    scheduler.nextSlotAt =
+      startAt + Math.max(scheduler.delayMs, crawlDelays.get(host) ?? 0);
+
+    const wait = startAt - now;
+    if (wait > 0) await sleep(wait);
+
+    return task();
+  });
+}
+
+/**
+ * Space requests to the URL's host at least `delayMs` apart, whatever delay callers configure.
+ * Pass undefined to remove it.
+ */
+export function setCrawlDelay(url: string, delayMs: number | undefined): void {
+  if (delayMs === undefined || delayMs <= 0) crawlDelays.delete(hostOf(url));
+  else crawlDelays.set(hostOf(url), delayMs);
+}
+
+export interface HostSchedulerStats {
+  activeCount: number;
+  pendingCount: number;
+  concurrency: number;
+  delayMs: number;
+  crawlDelayMs?: number; // From robots.txt, when set
+}
+
+/**
+ * Snapshot of the scheduler state per host (for diagnostics).
+ */
+export function getSchedulerStats(): Record<string, HostSchedulerStats> {
+  const stats: Record<string, HostSchedulerStats> = {};
+  for (const [host, s] of schedulers) {
+    stats[host] = {
+      activeCount: s.limit.activeCount,
+      pendingCount: s.limit.pendingCount,
+      concurrency: s.limit.concurrency,
+      delayMs: s.delayMs,
+      crawlDelayMs: crawlDelays.get(host),
+    };
+  }
+  return stats;
+}
+
+/**
+ * Drop all host schedulers and crawl delays. Pending tasks keep running on their old scheduler.
+ */
+export function resetSchedulers(): void {
+  schedulers.clear();
+  crawlDelays.clear();
+}
@@ -0,0 +1,217 @@
+// filename: response-cache.ts
+// Description: Pluggable response cache with per-resource TTLs and single-flight deduplication.
+// Notes:
+// - Sits underneath fetchHtml and the finder API request, so cached responses never touch the scheduler.
+// - Backends: MemoryCacheStore (per process) and FileCacheStore (one JSON file per key, survives re-runs).
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { AbortedError } from "./errors.ts";
+
+export type ResourceKind = "search" | "game" | "reviews" | "media";
+
+export interface CacheEntry {
+  value: string;
+  storedAt: number; // Epoch ms
+  expiresAt: number; // Epoch ms; stale (but still usable offline) afterwards
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheOptions {
+  store?: CacheStore; // default: shared MemoryCacheStore
+  ttlMs?: Partial<Record<ResourceKind, number>>; // Overrides DEFAULT_TTL_MS per resource
+  staleWhileRevalidate?: boolean; // Serve expired entries immediately and refresh in the background
+  offline?: boolean; // Cache-only: never hit the network, fail on a miss
+}
+
+export const DEFAULT_TTL_MS: Record<ResourceKind, number> = {
+  search: 60 * 60 * 1000, // 1h
+  game: 12 * 60 * 60 * 1000, // 12h
+  reviews: 24 * 60 * 60 * 1000, // 24h
+  media: 12 * 60 * 60 * 1000, // 12h - movie, TV and person pages
+};
+
+/**
+ * Thrown in offline mode when a response isn't cached.
+ */
+export class CacheMissError extends Error {
+  constructor(public readonly key: string) {
+    super(`Offline mode: no cached response for ${key}`);
+    this.name = "CacheMissError";
+  }
+}
+
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Stores each entry as `<dir>/<sha1(key)>.json`.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly dir = ".cache/metacritic") {}
+
+  private pathFor(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return join(this.dir, `${hash}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const parsed = JSON.parse(await readFile(this.pathFor(key), "utf-8"));
+      // Guard against hash collisions and hand-edited files
+      if (parsed?.key !== key || typeof parsed.value !== "string")
+        return undefined;
+      return {
+        value: parsed.value,
+        storedAt: parsed.storedAt,
+        expiresAt: parsed.expiresAt,
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(key), JSON.stringify({ key, ...entry }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+}
+
+const defaultStore = new MemoryCacheStore();
+
+// In-flight fetches by key, shared across every caller in the process
+interface Flight {
+  promise: Promise<string>;
+  controller: AbortController; // Cancels the shared fetch once every waiter has aborted
+  waiters: number;
+}
+
+const inFlight = new Map<string, Flight>();
+
+/**
+ * Stop waiting on a flight; the last waiter out cancels the fetch itself.
+ */
+function leaveFlight(key: string, flight: Flight, reason: unknown): void {
+  if (--flight.waiters > 0) return;
+  if (inFlight.get(key) === flight) inFlight.delete(key);
+  flight.controller.abort(reason);
+}
+
+/**
+ * Join the in-flight fetch for `key`, or start one. The fetch gets a signal of its own,
+ * never a caller's: `signal` only stops this caller waiting.
+ */
+function singleFlight(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<string>,
+  signal?: AbortSignal
+): Promise<string> {
+  let flight = inFlight.get(key);
+  if (!flight) {
+    const controller = new AbortController();
+    const started: Flight = {
+      promise: fetcher(controller.signal).finally(() => {
+        if (inFlight.get(key) === started) inFlight.delete(key);
+      }),
+      controller,
+      waiters: 0,
+    };
+    inFlight.set(key, started);
+    flight = started;
+  }
+
+  const joined = flight;
+  joined.waiters++;
+  if (!signal) return joined.promise;
+  if (signal.aborted) {
+    leaveFlight(key, joined, signal.reason);
+    return Promise.reject(new AbortedError(key, { cause: signal.reason }));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      leaveFlight(key, joined, signal.reason);
+      reject(new AbortedError(key, { cause: signal.reason }));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    joined.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * Return the cached value for `key`, or run `fetcher` (once, however many callers ask) and cache it.
+ * Without `cacheOpts` nothing is stored, but identical concurrent requests still collapse.
+ * Aborting `signal` rejects this caller with AbortedError; the shared fetch is only
+ * cancelled (through the signal `fetcher` gets) when every caller waiting on it has aborted.
+ */
+export async function cachedFetch(
+  key: string,
+  kind: ResourceKind,
+  cacheOpts: CacheOptions | undefined,
+  fetcher: (signal: AbortSignal) => Promise<string>,
+  signal?: AbortSignal
+): Promise<string> {
+  if (!cacheOpts) return singleFlight(key, fetcher, signal);
+
+  const store = cacheOpts.store ?? defaultStore;
+  const ttlMs = cacheOpts.ttlMs?.[kind] ?? DEFAULT_TTL_MS[kind];
+
+  const refresh = (waiterSignal?: AbortSignal) =>
+    singleFlight(
+      key,
+      async (fetchSignal) => {
+        const value = await fetcher(fetchSignal);
+        const now = Date.now();
+        await store.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+        return value;
+      },
+      waiterSignal
+    );
+
+  const entry = await store.get(key);
+  if (entry) {
+    if (entry.expiresAt > Date.now() || cacheOpts.offline) return entry.value;
+    if (cacheOpts.staleWhileRevalidate) {
+      // Nobody waits on the refresh, so no caller's signal cancels it.
+      // Failures just leave the stale entry in place for the next run
+      refresh().catch(() => {});
+      return entry.value;
+    }
+  }
+
+  if (cacheOpts.offline) throw new CacheMissError(key);
+  return refresh(signal);
+}
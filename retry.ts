@@ -0,0 +1,71 @@
+// filename: retry.ts
+// Description: Bounded exponential-backoff retries for transient failures, honoring Retry-After.
+
+import { setTimeout as sleep } from "node:timers/promises";
+import { RateLimitedError, TimeoutError, UpstreamError } from "./errors.ts";
+
+export interface RetryOptions {
+  retries?: number; // default 3 - attempts after the first
+  baseDelayMs?: number; // default 500 - doubled on every attempt
+  maxDelayMs?: number; // default 30000 - also caps Retry-After
+}
+
+/**
+ * Rate limits, timeouts, 5xx and dropped connections are worth retrying;
+ * 403/404 and parse errors are not.
+ */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof RateLimitedError || err instanceof TimeoutError) {
+    return true;
+  }
+  if (err instanceof UpstreamError) {
+    return err.statusCode === undefined || err.statusCode >= 500;
+  }
+  return false;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): Retry-After when the server sent one,
+ * otherwise exponential backoff with ±20% jitter.
+ */
+export function retryDelay(
+  err: unknown,
+  attempt: number,
+  opts: RetryOptions = {}
+): number {
+  const maxDelayMs = opts.maxDelayMs ?? 30000;
+  const retryAfterMs =
+    err instanceof RateLimitedError || err instanceof UpstreamError
+      ? err.retryAfterMs
+      : undefined;
+  if (retryAfterMs !== undefined) return Math.min(maxDelayMs, retryAfterMs);
+
+  const backoff = (opts.baseDelayMs ?? 500) * 2 ** attempt;
+  const jitter = 1 + (Math.random() * 0.4 - 0.2);
+  return Math.min(maxDelayMs, Math.round(backoff * jitter));
+}
+
+/**
+ * Run `task`, retrying retryable failures up to `retries` times.
+ * `onRetry` is told about each retry before the delay starts; `signal` cuts the delay short.
+ */
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  opts: RetryOptions = {},
+  onRetry?: (err: unknown, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const retries = Math.max(0, opts.retries ?? 3);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= retries || !isRetryable(err) || signal?.aborted) {
+        throw err;
+      }
+      const delayMs = retryDelay(err, attempt, opts);
+      onRetry?.(err, attempt + 1, delayMs);
+      await sleep(delayMs, undefined, { signal });
+    }
+  }
+}
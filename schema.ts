@@ -0,0 +1,88 @@
+// filename: schema.ts
+// Description: Minimal runtime schemas for validating backend JSON with path-precise errors.
+// Notes:
+// - Schemas only check the fields we read; unknown fields are ignored.
+
+import { ParseError } from "./errors.ts";
+
+export interface Schema<T> {
+  parse(value: unknown, path?: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new ParseError(
+    `${path || "(root)"}: expected ${expected}, got ${describe(value)}`,
+    undefined,
+    path
+  );
+}
+
+export const string: Schema<string> = {
+  parse(value, path = "") {
+    return typeof value === "string" ? value : fail(path, "string", value);
+  },
+};
+
+export const number: Schema<number> = {
+  parse(value, path = "") {
+    return typeof value === "number" && !Number.isNaN(value)
+      ? value
+      : fail(path, "number", value);
+  },
+};
+
+export const boolean: Schema<boolean> = {
+  parse(value, path = "") {
+    return typeof value === "boolean" ? value : fail(path, "boolean", value);
+  },
+};
+
+/**
+ * Missing (undefined) or null values become undefined.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    parse(value, path = "") {
+      return value === undefined || value === null
+        ? undefined
+        : schema.parse(value, path);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    parse(value, path = "") {
+      if (!Array.isArray(value)) fail(path, "array", value);
+      return value.map((v, i) => item.parse(v, `${path}[${i}]`));
+    },
+  };
+}
+
+export function object<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> {
+  return {
+    parse(value, path = "") {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        fail(path, "object", value);
+      }
+      const out: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        out[key] = schema.parse(
+          (value as Record<string, unknown>)[key],
+          path ? `${path}.${key}` : key
+        );
+      }
+      return out as { [K in keyof Shape]: Infer<Shape[K]> };
+    },
+  };
+}
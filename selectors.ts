@@ -0,0 +1,71 @@
+// filename: selectors.ts
+// Description: Fallback selector chains for page fields, with an optional trace of which selector matched.
+// Notes:
+// - Chains run newest layout first (data-testid), then the c-* design system, then the legacy markup.
+// - The trace is what `doctor` reports when Metacritic changes its markup.
+
+import type { Cheerio } from "cheerio";
+import type { AnyNode } from "domhandler";
+
+export type SelectorStep = string | { selector: string; attr: string };
+
+export interface FieldTrace {
+  field: string;
+  tried: string[]; // Every selector in the chain, in order
+  matched?: string; // The selector that produced the value; unset when none did
+  value?: string;
+}
+
+/**
+ * Collects one FieldTrace per field. For fields read once per review, the first
+ * review that matches wins, so a field only reads as missing when no review had it.
+ */
+export class SelectorTrace {
+  private traces = new Map<string, FieldTrace>();
+
+  record(trace: FieldTrace): void {
+    if (this.traces.get(trace.field)?.matched) return;
+    this.traces.set(trace.field, trace);
+  }
+
+  get(field: string): FieldTrace | undefined {
+    return this.traces.get(field);
+  }
+
+  get fields(): FieldTrace[] {
+    return Array.from(this.traces.values());
+  }
+}
+
+function stepLabel(step: SelectorStep): string {
+  return typeof step === "string" ? step : `${step.selector}@${step.attr}`;
+}
+
+/**
+ * Trimmed text (or attribute) of the first element matched by the first step
+ * that yields something non-empty; "" when no step does.
+ */
+export function selectFirst(
+  find: (selector: string) => Cheerio<AnyNode>,
+  field: string,
+  chain: SelectorStep[],
+  trace?: SelectorTrace
+): string {
+  for (const step of chain) {
+    const $el = find(typeof step === "string" ? step : step.selector).first();
+    const value = (
+      typeof step === "string" ? $el.text() : $el.attr(step.attr) ?? ""
+    ).trim();
+    if (value) {
+      trace?.record({
+        field,
+        tried: chain.map(stepLabel),
+        matched: stepLabel(step),
+        value,
+      });
+      return value;
+    }
+  }
+  trace?.record({ field, tried: chain.map(stepLabel) });
+  return "";
+}
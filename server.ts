@@ -0,0 +1,232 @@
+// filename: server.ts
+// Description: HTTP API exposing search, game and review lookups as JSON routes.
+// Usage:
+//   bun metacritic-game-scraper.ts serve --port=3000 [--host=0.0.0.0]
+// Routes:
+//   GET /health
+//   GET /search?q=<title>[&limit=5&offset=0]
+//   GET /games/:slug[?platform=pc]
+//   GET /games/:slug/reviews[?type=critic&platform=pc&sentiment=positive&minScore=80&since=&until=&maxPages=]
+// Notes:
+// - One server process shares a single scheduler and cache, so every caller draws from the same rate budget.
+
+import {
+  getGameDetails,
+  getReviews,
+  searchGamesByName,
+  type ReviewFilters,
+  type ReviewSentiment,
+  type ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+import {
+  MetacriticError,
+  NotFoundError,
+  RateLimitedError,
+  TimeoutError,
+} from "./errors.ts";
+import { buildGameUrl, normalizePlatform, type Platform } from "./platforms.ts";
+import { getSchedulerStats } from "./request-scheduler.ts";
+import { CacheMissError, MemoryCacheStore } from "./response-cache.ts";
+
+export interface ServeOptions {
+  port?: number; // default 3000
+  hostname?: string; // default "127.0.0.1"; use "0.0.0.0" to accept outside connections
+  scrape?: ScrapeOptions; // Shared by every request; a memory cache is added if none is set
+}
+
+function json(data: unknown, status = 200): Response {
+  return Response.json(data, { status });
+}
+
+function errorResponse(err: unknown): Response {
+  if (err instanceof BadRequestError) {
+    return json({ error: err.message }, 400);
+  }
+  if (err instanceof NotFoundError) {
+    return json({ error: "Not found on Metacritic", url: err.url }, 404);
+  }
+  if (err instanceof RateLimitedError) {
+    // Pass the upstream back-off on to our own callers
+    const res = json({ error: err.message, url: err.url }, 503);
+    if (err.retryAfterMs !== undefined) {
+      res.headers.set(
+        "Retry-After",
+        String(Math.ceil(err.retryAfterMs / 1000))
+      );
+    }
+    return res;
+  }
+  if (err instanceof TimeoutError) {
+    return json({ error: err.message, url: err.url }, 504);
+  }
+  if (err instanceof MetacriticError) {
+    // Forbidden, other upstream failures and parse errors are all a bad gateway for our callers
+    return json({ error: err.message, type: err.name, url: err.url }, 502);
+  }
+  if (err instanceof CacheMissError) {
+    return json({ error: err.message }, 503);
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  return json({ error: message }, 502);
+}
+
+/**
+ * A query parameter the route can't use. Answered with 400 and `{ error }`.
+ */
+class BadRequestError extends Error {
+  constructor(name: string, value: string) {
+    super(`Invalid ${name}: ${value}`);
+    this.name = "BadRequestError";
+  }
+}
+
+function optionalNumber(
+  params: URLSearchParams,
+  name: string
+): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === "") return undefined;
+  const n = Number(value);
+  if (Number.isNaN(n)) throw new BadRequestError(name, value);
+  return n;
+}
+
+function optionalDate(
+  params: URLSearchParams,
+  name: string
+): string | undefined {
+  const value = params.get(name) || undefined;
+  if (value !== undefined && Number.isNaN(Date.parse(value))) {
+    throw new BadRequestError(name, value);
+  }
+  return value;
+}
+
+const REVIEW_TYPES = ["critic", "user", "all"] as const;
+const SENTIMENTS: readonly ReviewSentiment[] = [
+  "positive",
+  "mixed",
+  "negative",
+];
+
+function reviewFiltersFrom(
+  params: URLSearchParams,
+  platform?: Platform
+): ReviewFilters {
+  const type = params.get("type") || undefined;
+  if (
+    type !== undefined &&
+    !(REVIEW_TYPES as readonly string[]).includes(type)
+  ) {
+    throw new BadRequestError("type", type);
+  }
+  const sentiment = params.getAll("sentiment").flatMap((s) => s.split(","));
+  for (const value of sentiment) {
+    if (!(SENTIMENTS as readonly string[]).includes(value)) {
+      throw new BadRequestError("sentiment", value);
+    }
+  }
+  return {
+    type: type as ReviewFilters["type"],
+    platform,
+    sentiment:
+      sentiment.length > 0 ? (sentiment as ReviewSentiment[]) : undefined,
+    minScore: optionalNumber(params, "minScore"),
+    since: optionalDate(params, "since"),
+    until: optionalDate(params, "until"),
+    maxPages: optionalNumber(params, "maxPages"),
+  };
+}
+
+/**
+ * Build the request handler. Exposed separately from `startServer` so it can be
+ * exercised without opening a port.
+ */
+export function createHandler(
+  scrape: ScrapeOptions = {}
+): (req: Request) => Promise<Response> {
+  const startedAt = Date.now();
+  const shared: ScrapeOptions = {
+    ...scrape,
+    cache: scrape.cache ?? { store: new MemoryCacheStore() },
+  };
+
+  return async (req) => {
+    const url = new URL(req.url);
+    const path = url.pathname.replace(/\/+$/, "") || "/";
+
+    if (req.method !== "GET") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+    // A client that disconnects cancels its queued and in-flight requests
+    const opts: ScrapeOptions = {
+      ...shared,
+      signal: shared.signal
+        ? AbortSignal.any([shared.signal, req.signal])
+        : req.signal,
+    };
+
+    try {
+      if (path === "/health") {
+        return json({
+          status: "ok",
+          uptimeMs: Date.now() - startedAt,
+          schedulers: getSchedulerStats(),
+        });
+      }
+
+      if (path === "/search") {
+        const q = url.searchParams.get("q")?.trim();
+        if (!q) return json({ error: "Missing query parameter: q" }, 400);
+        const results = await searchGamesByName(q, {
+          ...opts,
+          maxCandidates:
+            optionalNumber(url.searchParams, "limit") ?? opts.maxCandidates,
+          offset: optionalNumber(url.searchParams, "offset") ?? opts.offset,
+        });
+        return json(results);
+      }
+
+      // Any name the platform registry knows, e.g. "PS5" or "playstation-5"
+      const platformParam = url.searchParams.get("platform") || undefined;
+      const platform = normalizePlatform(platformParam);
+      if (platformParam && !platform) {
+        throw new BadRequestError("platform", platformParam);
+      }
+
+      const reviewsMatch = path.match(/^\/games\/([^/]+)\/reviews$/);
+      if (reviewsMatch?.[1]) {
+        const slug = decodeURIComponent(reviewsMatch[1]);
+        const reviews = await getReviews(
+          slug,
+          reviewFiltersFrom(url.searchParams, platform),
+          opts
+        );
+        return json(reviews);
+      }
+
+      const gameMatch = path.match(/^\/games\/([^/]+)$/);
+      if (gameMatch?.[1]) {
+        const slug = decodeURIComponent(gameMatch[1]);
+        const game = await getGameDetails(buildGameUrl(slug, platform), opts);
+        return json(game);
+      }
+
+      return json({ error: "Not found" }, 404);
+    } catch (err) {
+      return errorResponse(err);
+    }
+  };
+}
+
+/**
+ * Start the HTTP API with Bun.serve.
+ */
+export function startServer(options: ServeOptions = {}) {
+  const handler = createHandler(options.scrape);
+  return Bun.serve({
+    port: options.port ?? 3000,
+    hostname: options.hostname ?? "127.0.0.1",
+    fetch: handler,
+  });
+}
@@ -0,0 +1,235 @@
+// filename: snapshots.ts
+// Description: Timestamped GameRatings snapshots, history queries and score diffs between snapshots.
+// Notes:
+// - Backends mirror response-cache.ts: MemorySnapshotStore (per process) and FileSnapshotStore
+//   (one append-only NDJSON file per game, survives re-runs).
+// - Snapshots are keyed by the game URL's path, e.g. "pc/doom" for /game/pc/doom/.
+
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { GameRatings } from "./metacritic-game-scraper.ts";
+import type { Platform } from "./platforms.ts";
+
+export interface Snapshot {
+  key: string; // See snapshotKey
+  takenAt: string; // ISO timestamp
+  game: GameRatings;
+}
+
+export interface HistoryQuery {
+  since?: Date; // Inclusive
+  until?: Date; // Inclusive
+  limit?: number; // Most recent N within the range
+}
+
+export interface SnapshotStore {
+  append(snapshot: Snapshot): Promise<void>;
+  history(key: string, query?: HistoryQuery): Promise<Snapshot[]>; // Oldest first
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Stable identity for a game page: the path after /game/ ("pc/doom"), or the slug
+ * when given something that isn't a game URL.
+ */
+export function snapshotKey(urlOrSlug: string): string {
+  const m = urlOrSlug.match(/\/game\/([^?#]+?)\/?(?:[?#].*)?$/);
+  return (m?.[1] ?? urlOrSlug).replace(/^\/+|\/+$/g, "");
+}
+
+function applyQuery(
+  snapshots: Snapshot[],
+  query: HistoryQuery = {}
+): Snapshot[] {
+  const since = query.since?.getTime() ?? -Infinity;
+  const until = query.until?.getTime() ?? Infinity;
+  const inRange = snapshots
+    .filter((s) => {
+      const t = Date.parse(s.takenAt);
+      return t >= since && t <= until;
+    })
+    .sort((a, b) => Date.parse(a.takenAt) - Date.parse(b.takenAt));
+  return query.limit !== undefined
+    ? inRange.slice(Math.max(0, inRange.length - query.limit))
+    : inRange;
+}
+
+export class MemorySnapshotStore implements SnapshotStore {
+  private snapshots = new Map<string, Snapshot[]>();
+
+  async append(snapshot: Snapshot): Promise<void> {
+    const list = this.snapshots.get(snapshot.key) ?? [];
+    list.push(snapshot);
+    this.snapshots.set(snapshot.key, list);
+  }
+
+  async history(key: string, query?: HistoryQuery): Promise<Snapshot[]> {
+    return applyQuery(this.snapshots.get(key) ?? [], query);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.snapshots.keys());
+  }
+}
+
+/**
+ * Appends each snapshot as one line of `<dir>/<sha1(key)>.ndjson`.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private readonly dir = ".cache/metacritic-snapshots") {}
+
+  private pathFor(key: string): string {
+    const hash = createHash("sha1").update(key).digest("hex");
+    return join(this.dir, `${hash}.ndjson`);
+  }
+
+  private async readFile(path: string): Promise<Snapshot[]> {
+    let text: string;
+    try {
+      text = await readFile(path, "utf-8");
+    } catch {
+      return [];
+    }
+    const snapshots: Snapshot[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        snapshots.push(JSON.parse(line));
+      } catch {
+        // A run killed mid-write can leave a partial last line; skip it
+      }
+    }
+    return snapshots;
+  }
+
+  async append(snapshot: Snapshot): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await appendFile(
+      this.pathFor(snapshot.key),
+      JSON.stringify(snapshot) + "\n"
+    );
+  }
+
+  async history(key: string, query?: HistoryQuery): Promise<Snapshot[]> {
+    const snapshots = await this.readFile(this.pathFor(key));
+    // Guard against hash collisions and hand-edited files
+    return applyQuery(
+      snapshots.filter((s) => s.key === key),
+      query
+    );
+  }
+
+  async keys(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const keys = new Set<string>();
+    for (const file of files.filter((f) => f.endsWith(".ndjson"))) {
+      const [first] = await this.readFile(join(this.dir, file));
+      if (first) keys.add(first.key);
+    }
+    return Array.from(keys);
+  }
+}
+
+/**
+ * Record a snapshot of `game` taken now (or at `takenAt`).
+ */
+export async function recordSnapshot(
+  store: SnapshotStore,
+  game: GameRatings,
+  takenAt = new Date()
+): Promise<Snapshot> {
+  const snapshot: Snapshot = {
+    key: snapshotKey(game.url),
+    takenAt: takenAt.toISOString(),
+    game,
+  };
+  await store.append(snapshot);
+  return snapshot;
+}
+
+export const TRACKED_FIELDS = [
+  "metascore",
+  "userscore",
+  "criticReviewsCount",
+  "userRatingsCount",
+] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface ScoreChange {
+  field: TrackedField;
+  platform?: Platform; // Set for changes within platformScores
+  before?: number;
+  after?: number;
+  delta?: number; // after - before, when both are known
+}
+
+export interface SnapshotDiff {
+  key: string;
+  name: string;
+  url: string;
+  from: string; // takenAt of the earlier snapshot
+  to: string; // takenAt of the later snapshot
+  changes: ScoreChange[];
+}
+
+function fieldChanges(
+  before: Partial<Record<TrackedField, number>> | undefined,
+  after: Partial<Record<TrackedField, number>> | undefined,
+  platform?: Platform
+): ScoreChange[] {
+  const changes: ScoreChange[] = [];
+  for (const field of TRACKED_FIELDS) {
+    const a = before?.[field];
+    const b = after?.[field];
+    if (a === b) continue;
+    changes.push({
+      field,
+      platform,
+      before: a,
+      after: b,
+      // Rounded so 7.9 -> 8.1 reports 0.2, not 0.20000000000000018
+      delta:
+        a !== undefined && b !== undefined
+          ? Math.round((b - a) * 100) / 100
+          : undefined,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Score and review-count changes from `before` to `after`, overall and per platform.
+ */
+export function diffSnapshots(before: Snapshot, after: Snapshot): SnapshotDiff {
+  const changes = fieldChanges(before.game, after.game);
+
+  const platforms = new Set([
+    ...Object.keys(before.game.platformScores ?? {}),
+    ...Object.keys(after.game.platformScores ?? {}),
+  ]) as Set<Platform>;
+  for (const platform of platforms) {
+    changes.push(
+      ...fieldChanges(
+        before.game.platformScores?.[platform],
+        after.game.platformScores?.[platform],
+        platform
+      )
+    );
+  }
+
+  return {
+    key: after.key,
+    name: after.game.name,
+    url: after.game.url,
+    from: before.takenAt,
+    to: after.takenAt,
+    changes,
+  };
+}
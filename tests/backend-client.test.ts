@@ -0,0 +1,141 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  fetchFinder,
+  fetchGameFromApi,
+  fetchProductDetails,
+} from "../backend-client.ts";
+import { ParseError } from "../errors.ts";
+import {
+  getGameDetails,
+  type DiagnosticEvent,
+} from "../metacritic-game-scraper.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const opts = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+describe("fetchProductDetails", () => {
+  test("validates the response shape", async () => {
+    const product = await fetchProductDetails("doom", opts);
+    expect(product.title).toBe("DOOM");
+    expect(product.platforms).toHaveLength(4);
+  });
+
+  test("names the missing field when the schema doesn't match", async () => {
+    const err = await fetchProductDetails("broken", opts).catch((e) => e);
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err.field).toBe("data.item.title");
+    expect(err.message).toContain(
+      "data.item.title: expected string, got undefined"
+    );
+  });
+});
+
+describe("fetchFinder", () => {
+  test("validates the listing shape", async () => {
+    const listing = await fetchFinder(
+      "https://backend.metacritic.com/finder/metacritic/search/Doom/web?offset=0&limit=5&mcoTypeId=13&sortBy=&sortDirection=DESC&componentName=search&componentDisplayName=Search&componentType=SearchResults",
+      opts
+    );
+    expect(listing.totalResults).toBe(4);
+    expect(listing.items[1]).toMatchObject({
+      title: "DOOM",
+      criticScoreSummary: { score: 85 },
+    });
+  });
+
+  test("names the mistyped item field", async () => {
+    const err = await fetchFinder(
+      "https://backend.metacritic.com/finder/metacritic/web?sortBy=-metaScore&productType=games&offset=0&limit=24&mistyped=1",
+      opts
+    ).catch((e) => e);
+    expect(err).toBeInstanceOf(ParseError);
+    expect(err.field).toBe("data.items[0].criticScoreSummary.score");
+  });
+});
+
+describe("fetchGameFromApi", () => {
+  test("leaves the fields of a failed score summary empty", async () => {
+    // No switch score summaries are recorded, so both requests fail
+    const game = await fetchGameFromApi("doom", "switch", opts);
+    expect(game).toMatchObject({
+      name: "DOOM",
+      url: "https://www.metacritic.com/game/switch/doom/",
+      developers: ["id Software"],
+    });
+    expect(game.metascore).toBeUndefined();
+    expect(game.userscore).toBeUndefined();
+    expect(game.criticDistribution).toBeUndefined();
+  });
+
+  test("still fails without the product details", async () => {
+    await expect(fetchGameFromApi("broken", "pc", opts)).rejects.toBeInstanceOf(
+      ParseError
+    );
+  });
+});
+
+describe("getGameDetails", () => {
+  test("prefers the API and fills gaps from the game page", async () => {
+    const events: DiagnosticEvent[] = [];
+    const game = await getGameDetails(
+      "https://www.metacritic.com/game/pc/doom/",
+      {
+        ...opts,
+        onDiagnostic: (e) => events.push(e),
+      }
+    );
+
+    expect(game).toMatchObject({
+      name: "DOOM",
+      platforms: ["pc", "playstation-4", "xbox-one", "switch"],
+      url: "https://www.metacritic.com/game/pc/doom/",
+      metascore: 85,
+      criticReviewsCount: 74,
+      releaseDate: "2016-05-13",
+      developers: ["id Software"],
+      publishers: ["Bethesda Softworks"],
+      contentRating: "M",
+      coverImageUrl:
+        "https://www.metacritic.com/a/img/catalog/provider/6/3/6-1-doom-card.jpg",
+      criticDistribution: { positive: 68, mixed: 6, negative: 0 },
+      // The API has no user score yet, so these come from the HTML page
+      userscore: 8.1,
+      userDistribution: { positive: 3511, mixed: 402, negative: 399 },
+    });
+    expect(game.fieldSources).toMatchObject({
+      name: "api",
+      metascore: "api",
+      releaseDate: "api",
+      userscore: "html",
+      userDistribution: "html",
+      reviews: "html",
+    });
+    expect(events).toMatchObject([
+      {
+        type: "game-fallback",
+        slug: "doom",
+        reason: "Backend API has no userscore",
+      },
+    ]);
+  });
+
+  test("falls back to the game page when the API is unavailable", async () => {
+    const events: DiagnosticEvent[] = [];
+    const game = await getGameDetails(
+      "https://www.metacritic.com/game/playstation-4/grand-theft-auto-v/",
+      { ...opts, onDiagnostic: (e) => events.push(e) }
+    );
+
+    expect(game.metascore).toBe(97);
+    expect(Object.values(game.fieldSources ?? {})).toEqual(
+      expect.arrayContaining(["html"])
+    );
+    expect(Object.values(game.fieldSources ?? {})).not.toContain("api");
+    expect(events[0]?.type).toBe("game-fallback");
+  });
+});
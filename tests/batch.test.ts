@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CSV_COLUMNS,
+  parseBatchInput,
+  runBatch,
+  type BatchRow,
+} from "../batch.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const scrape = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+const INPUT = [
+  "# catalogue",
+  "Doom\tpc",
+  "",
+  '{"title": "Qwxzy Nonexistent"}',
+  "Unrecorded Title",
+].join("\n");
+
+describe("parseBatchInput", () => {
+  test("reads plain, tab-separated and JSON lines", () => {
+    expect(parseBatchInput(INPUT)).toEqual([
+      { line: 2, title: "Doom", platform: "pc" },
+      { line: 4, title: "Qwxzy Nonexistent", platform: undefined },
+      { line: 5, title: "Unrecorded Title", platform: undefined },
+    ]);
+  });
+});
+
+describe("runBatch", () => {
+  test("streams one NDJSON row per input with a status", async () => {
+    const lines: string[] = [];
+    const summary = await runBatch(parseBatchInput(INPUT), {
+      write: (chunk) => void lines.push(chunk),
+      scrape,
+    });
+
+    const rows = lines
+      .map((l) => JSON.parse(l) as BatchRow)
+      .sort((a, b) => a.line - b.line);
+    expect(rows.map((r) => [r.line, r.status])).toEqual([
+      [2, "ok"],
+      [4, "not_found"],
+      [5, "error"],
+    ]);
+    expect(rows[0]?.result?.url).toBe(
+      "https://www.metacritic.com/game/pc/doom/"
+    );
+    expect(summary).toEqual({
+      total: 3,
+      skipped: 0,
+      ok: 1,
+      notFound: 1,
+      errors: 1,
+    });
+  });
+
+  test("writes CSV and resumes from the checkpoint", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "metacritic-batch-"));
+    const checkpointPath = join(dir, "batch.checkpoint");
+    const entries = parseBatchInput(INPUT);
+
+    const first: string[] = [];
+    await runBatch(entries, {
+      format: "csv",
+      write: (chunk) => void first.push(chunk),
+      checkpointPath,
+      scrape,
+    });
+    expect(first[0]).toBe(CSV_COLUMNS.join(",") + "\n");
+    expect(first).toHaveLength(4);
+
+    const checkpoint = await readFile(checkpointPath, "utf-8");
+    expect(checkpoint.trim().split("\n")).toHaveLength(2);
+
+    // Only the errored entry is attempted again
+    const second: string[] = [];
+    const summary = await runBatch(entries, {
+      format: "csv",
+      write: (chunk) => void second.push(chunk),
+      writeHeader: false,
+      checkpointPath,
+      scrape,
+    });
+    expect(summary.skipped).toBe(2);
+    expect(second).toHaveLength(1);
+    expect(second[0]).toStartWith("5,Unrecorded Title,,error,");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  browseGames,
+  iterateBrowse,
+  type BrowseFilters,
+  type BrowseResult,
+} from "../browse.ts";
+import type { DiagnosticEvent } from "../metacritic-game-scraper.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const opts = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+const SWITCH_2025: BrowseFilters = {
+  platform: "switch",
+  yearFrom: 2025,
+  yearTo: 2025,
+};
+
+describe("browseGames", () => {
+  test("reads a finder API listing page", async () => {
+    const page = await browseGames(SWITCH_2025, opts);
+    expect(page).toMatchObject({ page: 1, totalResults: 26, hasMore: true });
+    expect(page.results).toHaveLength(24);
+    expect(page.results[0]).toEqual({
+      rank: 1,
+      name: "Hades II",
+      platforms: ["pc", "switch"],
+      slug: "hades-ii",
+      url: "https://www.metacritic.com/game/pc/hades-ii/",
+      metascore: 94,
+      userscore: 9.1,
+      releaseYear: 2025,
+      releaseDate: "2025-09-25",
+      type: "game-title",
+      source: "api",
+    });
+  });
+
+  test("falls back to the browse page when the API has nothing", async () => {
+    const events: DiagnosticEvent[] = [];
+    const page = await browseGames(
+      { genre: "RPG", sort: "userscore" },
+      { ...opts, onDiagnostic: (e) => events.push(e) }
+    );
+
+    expect(events.map((e) => e.type)).toEqual(["browse-fallback"]);
+    expect(page.hasMore).toBe(false);
+    expect(
+      page.results.map((r) => [
+        r.rank,
+        r.name,
+        r.url,
+        r.metascore,
+        r.releaseYear,
+      ])
+    ).toEqual([
+      [
+        1,
+        "The Witcher 3: Wild Hunt",
+        "https://www.metacritic.com/game/the-witcher-3-wild-hunt/",
+        92,
+        2015,
+      ],
+      [
+        2,
+        "Baldur's Gate 3",
+        "https://www.metacritic.com/game/pc/baldurs-gate-3/",
+        96,
+        2023,
+      ],
+      [
+        3,
+        "Hollow Knight: Silksong",
+        "https://www.metacritic.com/game/hollow-knight-silksong/",
+        undefined,
+        undefined,
+      ],
+    ]);
+    expect(page.results.every((r) => r.source === "html")).toBe(true);
+  });
+});
+
+describe("iterateBrowse", () => {
+  test("pages through the listing up to maxResults", async () => {
+    const results: BrowseResult[] = [];
+    for await (const r of iterateBrowse(SWITCH_2025, opts, 25)) results.push(r);
+    expect(results).toHaveLength(25);
+    expect(results[24]).toMatchObject({ rank: 25, slug: "switch-game-25" });
+  });
+
+  test("stops when the listing runs out", async () => {
+    const results: BrowseResult[] = [];
+    for await (const r of iterateBrowse(SWITCH_2025, opts, 100))
+      results.push(r);
+    expect(results.map((r) => r.rank)).toEqual(
+      Array.from({ length: 26 }, (_, i) => i + 1)
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { EXIT_CODES, exitCodeFor, runCli, UsageError } from "../cli.ts";
+import {
+  NotFoundError,
+  ParseError,
+  RateLimitedError,
+  TimeoutError,
+} from "../errors.ts";
+
+const REPLAY = ["--replay", join(import.meta.dir, "fixtures"), "--delay=0"];
+
+async function run(...argv: string[]) {
+  let stdout = "";
+  let stderr = "";
+  const code = await runCli(argv, {
+    stdout: (chunk) => void (stdout += chunk),
+    stderr: (chunk) => void (stderr += chunk),
+    readStdin: async () => "",
+  });
+  return { code, stdout, stderr };
+}
+
+describe("runCli", () => {
+  test("accepts both --flag value and --flag=value", async () => {
+    const spaced = await run("search", "Doom", ...REPLAY, "--format", "csv");
+    const joined = await run("search", "Doom", ...REPLAY, "--format=csv");
+    expect(spaced.code).toBe(EXIT_CODES.ok);
+    expect(spaced.stdout).toBe(joined.stdout);
+    expect(spaced.stdout.split("\n").slice(0, 2)).toEqual([
+      "name,platforms,releaseYear,metascore,matchScore,url",
+      "DOOM,pc playstation-4,2016,85,1,https://www.metacritic.com/game/pc/doom/",
+    ]);
+  });
+
+  test("prints one JSON line per result with --format ndjson", async () => {
+    const { stdout } = await run(
+      "search",
+      "Doom",
+      ...REPLAY,
+      "--format",
+      "ndjson"
+    );
+    const lines = stdout.trimEnd().split("\n");
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[1]!)).toMatchObject({ name: "Doom Eternal" });
+  });
+
+  test("renders a game as a table", async () => {
+    const { code, stdout } = await run(
+      "game",
+      "https://www.metacritic.com/game/pc/doom/",
+      ...REPLAY,
+      "--format=table"
+    );
+    expect(code).toBe(EXIT_CODES.ok);
+    const [header, rule, row] = stdout.split("\n");
+    expect(header).toStartWith("name  platforms");
+    expect(rule).toStartWith("----  ---------");
+    expect(row).toContain("2016-05-13");
+  });
+
+  test("exits 3 when a search has no results or a page is missing", async () => {
+    const search = await run("search", "Qwxzy Nonexistent", ...REPLAY);
+    expect(search.code).toBe(EXIT_CODES.notFound);
+    expect(search.stdout).toBe("");
+    expect(search.stderr).toContain('No results for "Qwxzy Nonexistent"');
+
+    const game = await run(
+      "game",
+      "https://www.metacritic.com/game/pc/no-such-game/",
+      ...REPLAY
+    );
+    expect(game.code).toBe(EXIT_CODES.notFound);
+    expect(game.stderr).toContain("Not found");
+  });
+
+  test("treats a bare title as find", async () => {
+    const { code, stdout } = await run("Doom", ...REPLAY);
+    expect(code).toBe(EXIT_CODES.ok);
+    expect(JSON.parse(stdout)[0]).toMatchObject({ name: "DOOM" });
+  });
+
+  test("exports releases as iCalendar and keeps their state", async () => {
+    const state = join(
+      await mkdtemp(join(tmpdir(), "metacritic-releases-")),
+      "releases.json"
+    );
+    const argv = [
+      "releases",
+      "--platform=ps5",
+      "--from=2026-10-01",
+      "--to=2027-01-31",
+      `--state=${state}`,
+      ...REPLAY,
+    ];
+    const first = await run(...argv);
+    expect(first.code).toBe(EXIT_CODES.ok);
+    expect(first.stdout).toStartWith("BEGIN:VCALENDAR\r\n");
+    expect(first.stdout).toContain("UID:hollow-crown@metacritic-scraper\r\n");
+
+    const saved = await Bun.file(state).json();
+    expect(saved).toHaveLength(5);
+    // Nothing changed, so the second export keeps every revision
+    const unstamped = (ics: string) => ics.replace(/DTSTAMP:\w+/g, "");
+    expect(unstamped((await run(...argv)).stdout)).toBe(
+      unstamped(first.stdout)
+    );
+    expect(await Bun.file(state).json()).toEqual(saved);
+  });
+
+  test.each([
+    [["search", "Doom", "--bogus"], "Unknown option '--bogus'"],
+    [["search"], "Missing search query"],
+    [["search", "Doom", "--format", "xml"], "--format must be one of"],
+    [["reviews", "doom", "--limit=ten"], "--limit expects a number"],
+    [["search", "Doom", "--timeout"], "argument missing"],
+    [["--verbose"], 'Unknown command "--verbose"'],
+    [["releases", "--from", "someday"], "--from expects a date"],
+  ])("exits 2 on a bad command line: %p", async (argv, message) => {
+    const { code, stderr } = await run(...argv);
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain(message);
+  });
+
+  test("ends with a JSON run summary by default", async () => {
+    const { stderr } = await run("search", "Doom", ...REPLAY);
+    expect(JSON.parse(stderr.trimEnd().split("\n").at(-1)!)).toMatchObject({
+      level: "info",
+      msg: "summary",
+      command: "search",
+      exitCode: 0,
+      requests: 1,
+      api: 1,
+      html: 0,
+    });
+  });
+
+  test("--log-level warn drops the run summary", async () => {
+    const { stderr } = await run(
+      "search",
+      "Doom",
+      ...REPLAY,
+      "--log-level=warn"
+    );
+    expect(stderr).not.toContain('"msg":"summary"');
+  });
+
+  test("prints per-command help", async () => {
+    const { code, stdout } = await run("reviews", "--help");
+    expect(code).toBe(EXIT_CODES.ok);
+    expect(stdout).toStartWith(
+      "Usage: bun metacritic-game-scraper.ts reviews <url|slug> [options]"
+    );
+    expect(stdout).toContain("--min-score <N>");
+    expect(stdout).toContain("--replay <DIR>");
+    expect((await run("help", "reviews")).stdout).toBe(stdout);
+  });
+
+  test("history rejects dates that don't parse", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "metacritic-history-"));
+    const { code, stderr } = await run(
+      "history",
+      "pc/doom",
+      "--snapshots-dir",
+      dir,
+      "--since=last tuesday"
+    );
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain(
+      '--since expects a date like 2026-11-01, got "last tuesday"'
+    );
+    expect(
+      (
+        await run(
+          "history",
+          "pc/doom",
+          "--snapshots-dir",
+          dir,
+          "--until=2026-11-01"
+        )
+      ).code
+    ).toBe(EXIT_CODES.ok);
+  });
+
+  test("find --type renders media details in the requested format", async () => {
+    const { code, stdout } = await run(
+      "find",
+      "Severance",
+      "--type=tv",
+      ...REPLAY,
+      "--format=csv"
+    );
+    expect(code).toBe(EXIT_CODES.ok);
+    expect(stdout.split("\n").slice(0, 2)).toEqual([
+      "name,mediaType,metascore,userscore,criticReviewsCount,userRatingsCount,releaseDate,url",
+      "Severance,tv,86,8.5,58,,2022-02-18,https://www.metacritic.com/tv/severance/",
+    ]);
+  });
+
+  test.each(["0", "1.5"])("rejects --concurrency=%s", async (value) => {
+    const { code, stderr } = await run(
+      "search",
+      "Doom",
+      ...REPLAY,
+      `--concurrency=${value}`
+    );
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain(
+      `--concurrency expects a whole number of at least 1, got "${value}"`
+    );
+  });
+
+  test("doctor rejects unknown --require fields", async () => {
+    const page = join(import.meta.dir, "fixtures", "game-pc-doom.body.html");
+    const { code, stderr } = await run("doctor", page, "--require=name,score");
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain("unknown: score");
+    expect((await run("doctor", page, "--require=name,userscore")).code).toBe(
+      EXIT_CODES.ok
+    );
+  });
+
+  test("prints the command list without arguments", async () => {
+    const { code, stderr } = await run();
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain("Commands:");
+    expect(stderr).toContain("Exit codes:");
+  });
+});
+
+test.each([
+  [new UsageError("x"), EXIT_CODES.usage],
+  [new NotFoundError("u"), EXIT_CODES.notFound],
+  [new RateLimitedError("u"), EXIT_CODES.unavailable],
+  [new TimeoutError("u"), EXIT_CODES.unavailable],
+  [new ParseError("x"), EXIT_CODES.layout],
+  [new Error("x"), EXIT_CODES.error],
+])("exitCodeFor(%p)", (err, code) => {
+  expect(exitCodeFor(err)).toBe(code);
+});
@@ -0,0 +1,169 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  AbortedError,
+  MetacriticClient,
+  NotFoundError,
+  type RequestEvent,
+  type ResponseEvent,
+} from "../index.ts";
+
+const finderDoom = await Bun.file(
+  join(import.meta.dir, "fixtures", "finder-doom.body.json")
+).text();
+
+// Stands in for backend.metacritic.com
+let backend: ReturnType<typeof Bun.serve>;
+const seenHeaders: Headers[] = [];
+let sharedRequests = 0;
+
+beforeAll(() => {
+  backend = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      seenHeaders.push(req.headers);
+      const path = new URL(req.url).pathname;
+      if (path.startsWith("/finder/metacritic/search/Doom/")) {
+        return new Response(finderDoom, {
+          headers: { "content-type": "application/json" },
+        });
+      }
+      if (path.startsWith("/finder/metacritic/search/Shared/")) {
+        sharedRequests++;
+        await Bun.sleep(300);
+        return new Response(finderDoom, {
+          headers: { "content-type": "application/json" },
+        });
+      }
+      if (path.startsWith("/finder/metacritic/search/Slow/")) {
+        await Bun.sleep(2000);
+        return new Response("{}");
+      }
+      return new Response("missing", { status: 404 });
+    },
+  });
+});
+
+afterAll(() => backend.stop(true));
+
+function client(config: ConstructorParameters<typeof MetacriticClient>[0]) {
+  return new MetacriticClient({
+    baseUrls: { backend: backend.url.href },
+    delayBetweenRequestsMs: 0,
+    retry: false,
+    ...config,
+  });
+}
+
+describe("MetacriticClient", () => {
+  test("sends requests to the configured base URL with merged headers", async () => {
+    const requests: RequestEvent[] = [];
+    const responses: ResponseEvent[] = [];
+    const results = await client({
+      headers: { "X-Team": "media" },
+      onRequest: (e) => requests.push(e),
+      onResponse: (e) => responses.push(e),
+    }).search("Doom", { headers: { "X-Request-Id": "abc" } });
+
+    // Results keep canonical URLs
+    expect(results[0]?.url).toBe("https://www.metacritic.com/game/pc/doom/");
+    expect(requests).toEqual([
+      {
+        url: expect.stringContaining(`${backend.url.origin}/finder/`),
+        kind: "search",
+        attempt: 1,
+      },
+    ]);
+    expect(responses[0]).toMatchObject({
+      statusCode: 200,
+      bytes: Buffer.byteLength(finderDoom),
+    });
+    const headers = seenHeaders.at(-1)!;
+    expect(headers.get("x-team")).toBe("media");
+    expect(headers.get("x-request-id")).toBe("abc");
+    expect(headers.get("accept")).toBe("application/json");
+  });
+
+  test("reports failed attempts to onError", async () => {
+    const errors: unknown[] = [];
+    await expect(
+      client({ onError: (err) => errors.push(err) }).getPublication(
+        "nobody",
+        {},
+        {
+          baseUrls: { site: backend.url.href },
+        }
+      )
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(NotFoundError);
+  });
+
+  test("cancels an in-flight request when the call's signal aborts", async () => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort(), 50);
+    // The mock takes 2s to answer
+    await expect(
+      client({}).searchMedia("Slow", "movie", { signal: controller.signal })
+    ).rejects.toBeInstanceOf(AbortedError);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  test("one caller aborting doesn't cancel an identical call in flight", async () => {
+    const controller = new AbortController();
+    const c = client({});
+    const aborted = c.search("Shared", { signal: controller.signal });
+    const other = c.search("Shared");
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortedError);
+    expect((await other).map((r) => r.name)).toContain("DOOM");
+    expect(sharedRequests).toBe(1);
+  });
+
+  test("cancels a shared request once every caller has aborted", async () => {
+    const a = new AbortController();
+    const b = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => a.abort(), 50);
+    setTimeout(() => b.abort(), 100);
+    const c = client({});
+    // The mock takes 2s to answer
+    const results = await Promise.allSettled([
+      c.searchMedia("Slow", "movie", { signal: a.signal }),
+      c.searchMedia("Slow", "movie", { signal: b.signal }),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  test("an aborted call rejects instead of skipping platforms or falling back", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const diagnostics: string[] = [];
+    const c = client({
+      signal: controller.signal,
+      onDiagnostic: (e) => diagnostics.push(e.type),
+    });
+
+    await expect(
+      c.getPlatformScores("doom", ["pc", "switch"])
+    ).rejects.toBeInstanceOf(AbortedError);
+    await expect(c.search("Doom")).rejects.toBeInstanceOf(AbortedError);
+    await expect(c.browse()).rejects.toBeInstanceOf(AbortedError);
+    await expect(c.searchMedia("Dune", "movie")).rejects.toBeInstanceOf(
+      AbortedError
+    );
+    expect(diagnostics).toEqual([]);
+  });
+
+  test("a client-wide signal aborts every call", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      client({ signal: controller.signal }).search("Doom")
+    ).rejects.toBeInstanceOf(AbortedError);
+  });
+});
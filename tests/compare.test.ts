@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  compareGames,
+  compareRow,
+  divergenceFlag,
+  formatComparison,
+  type CompareRow,
+} from "../compare.ts";
+import type { GameRatings } from "../metacritic-game-scraper.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const opts = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+function game(overrides: Partial<GameRatings>): GameRatings {
+  return {
+    name: "Game",
+    platforms: [],
+    slug: "game",
+    url: "https://www.metacritic.com/game/game/",
+    reviews: [],
+    ...overrides,
+  };
+}
+
+const ROWS: CompareRow[] = [
+  compareRow(
+    "doom",
+    game({
+      name: "DOOM",
+      metascore: 85,
+      userscore: 8.1,
+      criticReviewsCount: 74,
+      userRatingsCount: 4312,
+      releaseDate: "May 13, 2016",
+      releaseDateNormalized: {
+        original: "May 13, 2016",
+        precision: "day",
+        iso: "2016-05-13",
+        year: 2016,
+        month: 5,
+      },
+    })
+  ),
+  compareRow("bombed", game({ name: "Bombed", metascore: 88, userscore: 2.9 })),
+  { input: "missing", error: "No search results" },
+];
+
+describe("compareRow", () => {
+  test("scales the userscore and computes the gap", () => {
+    expect(ROWS[0]).toMatchObject({
+      metascore: 85,
+      userscore: 81,
+      gap: 4,
+      releaseDate: "2016-05-13",
+      flag: undefined,
+    });
+  });
+
+  test.each<
+    [number, number | undefined, number, ReturnType<typeof divergenceFlag>]
+  >([
+    [88, 29, 20, "review-bombed"],
+    [90, 60, 20, "critic-darling"],
+    [60, 85, 20, "user-favorite"],
+    [85, 70, 20, undefined],
+    [85, 70, 10, "critic-darling"],
+    [85, undefined, 20, undefined],
+  ])("divergenceFlag(%p, %p, %p)", (meta, user, threshold, flag) => {
+    expect(divergenceFlag(meta, user, threshold)).toBe(flag);
+  });
+});
+
+describe("formatComparison", () => {
+  test("aligns a plain-text table", () => {
+    expect(formatComparison(ROWS)).toBe(
+      [
+        "Game     Metascore  Userscore  Gap  Critics  Users  Released    Flag",
+        "-------  ---------  ---------  ---  -------  -----  ----------  ------------------------",
+        "DOOM            85         81   +4       74   4312  2016-05-13",
+        "Bombed          88         29  +59        -      -  -           review-bombed",
+        "missing          -          -    -        -      -  -           error: No search results",
+      ].join("\n")
+    );
+  });
+
+  test("renders Markdown with numeric columns right-aligned", () => {
+    const lines = formatComparison(ROWS, "markdown").split("\n");
+    expect(lines[0]).toBe(
+      "| Game | Metascore | Userscore | Gap | Critics | Users | Released | Flag |"
+    );
+    expect(lines[1]).toBe(
+      "| --- | ---: | ---: | ---: | ---: | ---: | --- | --- |"
+    );
+    expect(lines[3]).toBe(
+      "| Bombed | 88 | 29 | +59 | - | - | - | review-bombed |"
+    );
+  });
+
+  test("renders JSON rows", () => {
+    expect(JSON.parse(formatComparison(ROWS, "json"))[2]).toEqual({
+      input: "missing",
+      error: "No search results",
+    });
+  });
+});
+
+test("compareGames resolves titles through search and keeps failures as rows", async () => {
+  const rows = await compareGames(["Doom", "Qwxzy Nonexistent"], {
+    scrape: opts,
+  });
+  expect(rows[0]).toMatchObject({
+    input: "Doom",
+    name: "DOOM",
+    url: "https://www.metacritic.com/game/pc/doom/",
+    metascore: 85,
+  });
+  expect(rows[1]).toEqual({
+    input: "Qwxzy Nonexistent",
+    error: 'No search results for "Qwxzy Nonexistent"',
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import {
+  compareDates,
+  daysSince,
+  isInDateRange,
+  normalizeDate,
+} from "../dates.ts";
+
+describe("normalizeDate", () => {
+  test.each([
+    ["Nov 14, 2025", "day", "2025-11-14"],
+    ["November 4 2025", "day", "2025-11-04"],
+    ["Sept. 3, 2024", "day", "2024-09-03"],
+    ["14 Nov 2025", "day", "2025-11-14"],
+    ["11/14/2025", "day", "2025-11-14"],
+    ["2016-05-13", "day", "2016-05-13"],
+    ["2016-05-13T00:00:00Z", "day", "2016-05-13"],
+    ["Nov 2025", "month", "2025-11-01"],
+    ["2025-11", "month", "2025-11-01"],
+    ["Q2 2026", "quarter", "2026-04-01"],
+    ["2026 Q4", "quarter", "2026-10-01"],
+    ["3rd Quarter 2026", "quarter", "2026-07-01"],
+    ["2026", "year", "2026-01-01"],
+    ["TBA 2026", "year", "2026-01-01"],
+    ["Early 2027", "year", "2027-01-01"],
+    ["TBA", "tba", undefined],
+    ["Coming Soon", "tba", undefined],
+  ])("%s", (text, precision, iso) => {
+    const date = normalizeDate(text);
+    expect(date).toMatchObject({ original: text, precision });
+    expect(date?.iso).toBe(iso);
+  });
+
+  test("keeps the original text and splits out the parts", () => {
+    expect(normalizeDate("  Nov 14, 2025 ")).toEqual({
+      original: "Nov 14, 2025",
+      precision: "day",
+      iso: "2025-11-14",
+      year: 2025,
+      month: 11,
+    });
+    expect(normalizeDate("Q1 2026")).toEqual({
+      original: "Q1 2026",
+      precision: "quarter",
+      iso: "2026-01-01",
+      year: 2026,
+      quarter: 1,
+    });
+  });
+
+  test("rejects text that isn't a date", () => {
+    expect(normalizeDate("")).toBeUndefined();
+    expect(normalizeDate(undefined)).toBeUndefined();
+    expect(normalizeDate("Feb 30, 2025")).toBeUndefined();
+    expect(normalizeDate("13/01/2025")).toBeUndefined();
+    expect(normalizeDate("Rip and tear")).toBeUndefined();
+  });
+});
+
+describe("date helpers", () => {
+  const dates = ["TBA", "Q2 2026", "Nov 14, 2025", "2024"].map(normalizeDate);
+
+  test("compareDates sorts earliest first with TBA last", () => {
+    expect([...dates].sort(compareDates).map((d) => d?.original)).toEqual([
+      "2024",
+      "Nov 14, 2025",
+      "Q2 2026",
+      "TBA",
+    ]);
+  });
+
+  test("isInDateRange and daysSince use the start of the period", () => {
+    const nov = normalizeDate("Nov 14, 2025");
+    expect(
+      isInDateRange(nov, new Date("2025-11-01"), new Date("2025-12-01"))
+    ).toBe(true);
+    expect(isInDateRange(nov, new Date("2025-12-01"))).toBe(false);
+    expect(isInDateRange(normalizeDate("TBA"))).toBe(false);
+    expect(daysSince(nov, new Date("2025-11-24T12:00:00Z"))).toBe(10);
+    expect(daysSince(normalizeDate("TBA"))).toBeUndefined();
+  });
+});
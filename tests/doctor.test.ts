@@ -0,0 +1,114 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  diagnoseGamePage,
+  DOCTOR_FIELDS,
+  formatDoctorReport,
+  runDoctor,
+} from "../doctor.ts";
+
+const fixture = (name: string) => join(import.meta.dir, "fixtures", name);
+
+describe("diagnoseGamePage", () => {
+  test("reports the data-testid selectors on the current layout", async () => {
+    const html = await Bun.file(fixture("game-pc-doom.body.html")).text();
+    const report = diagnoseGamePage(
+      html,
+      "https://www.metacritic.com/game/pc/doom/"
+    );
+    expect(report.ok).toBe(true);
+    const byField = new Map(report.fields.map((f) => [f.field, f]));
+    expect(byField.get("metascore")).toEqual({
+      field: "metascore",
+      tried: [
+        '[data-testid="metascore-wrapped"]',
+        "div.metascore_w > span",
+        "div.metascore_w",
+      ],
+      matched: '[data-testid="metascore-wrapped"]',
+      value: "85",
+    });
+    expect(byField.get("developers")?.matched).toBe("json-ld");
+    expect(byField.get("criticReviews")?.value).toBe("2");
+    expect(byField.get("criticDistribution")).toMatchObject({
+      matched: '[data-testid="critic-score-distribution"]',
+      value: "68/6/0",
+    });
+    expect(report.fields.map((f) => f.field)).toEqual(DOCTOR_FIELDS);
+  });
+
+  test("falls through to the legacy selectors on old pages", async () => {
+    const html = await Bun.file(
+      fixture("game-ps4-gta-v-legacy.body.html")
+    ).text();
+    const report = diagnoseGamePage(html);
+    expect(report.ok).toBe(true);
+    const matched = Object.fromEntries(
+      report.fields.map((f) => [f.field, f.matched])
+    );
+    expect(matched).toMatchObject({
+      name: "h1.product_title",
+      metascore: "div.metascore_w > span",
+      userscore: "div.userscore_w",
+      "criticReview.source": ".source",
+      developers: "li.developer .data",
+    });
+  });
+
+  test("flags required fields that no selector matches", () => {
+    // Renamed test ids, as after a redesign
+    const html = `<html><head><meta property="og:title" content="DOOM"></head>
+      <body><div data-testid="score-metascore">85</div></body></html>`;
+    const report = diagnoseGamePage(html);
+    expect(report.ok).toBe(false);
+    expect(report.missingRequired).toEqual(["metascore", "releaseDate"]);
+    expect(report.fields.find((f) => f.field === "name")?.matched).toBe(
+      'meta[property="og:title"]@content'
+    );
+    expect(report.fields.find((f) => f.field === "metascore")?.matched).toBe(
+      undefined
+    );
+
+    const text = formatDoctorReport(report);
+    expect(text).toContain("FAIL metascore");
+    expect(text).toContain("Missing required fields: metascore, releaseDate");
+  });
+
+  test("still traces every field when the title is missing", () => {
+    const report = diagnoseGamePage(
+      `<div data-testid="metascore-wrapped">85</div>`,
+      undefined,
+      ["name", "metascore"]
+    );
+    expect(report.error).toContain("No product title");
+    expect(report.missingRequired).toEqual(["name"]);
+    expect(report.fields.find((f) => f.field === "metascore")?.value).toBe(
+      "85"
+    );
+  });
+});
+
+describe("runDoctor", () => {
+  test("reads a saved HTML file", async () => {
+    const report = await runDoctor(fixture("game-pc-doom.body.html"), {}, [
+      "name",
+      "userscore",
+    ]);
+    expect(report).toMatchObject({ source: "file", ok: true });
+  });
+
+  test("reports a missing file instead of fetching it", async () => {
+    const requests: string[] = [];
+    const transport = {
+      live: false,
+      async request({ url }: { url: string }) {
+        requests.push(url);
+        return { statusCode: 200, headers: {}, body: "" };
+      },
+    };
+    await expect(
+      runDoctor(fixture("no-such-page.html"), { transport })
+    ).rejects.toThrow("ENOENT");
+    expect(requests).toEqual([]);
+  });
+});
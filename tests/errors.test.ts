@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  errorForStatus,
+  ForbiddenError,
+  NotFoundError,
+  ParseError,
+  parseRetryAfter,
+  RateLimitedError,
+  UpstreamError,
+} from "../errors.ts";
+import {
+  scrapeGamePage,
+  searchGamesByName,
+  type DiagnosticEvent,
+} from "../metacritic-game-scraper.ts";
+import { isRetryable } from "../retry.ts";
+import { ReplayTransport, type Transport } from "../transport.ts";
+
+describe("errorForStatus", () => {
+  test("maps status codes to error classes", () => {
+    const url = "https://www.metacritic.com/game/pc/doom/";
+    expect(errorForStatus(404, url)).toBeInstanceOf(NotFoundError);
+    expect(errorForStatus(403, url)).toBeInstanceOf(ForbiddenError);
+    expect(errorForStatus(500, url)).toBeInstanceOf(UpstreamError);
+
+    const limited = errorForStatus(429, url, { "retry-after": "7" });
+    expect(limited).toBeInstanceOf(RateLimitedError);
+    expect((limited as RateLimitedError).retryAfterMs).toBe(7000);
+  });
+
+  test("only transient failures are retryable", () => {
+    const url = "https://www.metacritic.com/";
+    expect(isRetryable(new RateLimitedError(url))).toBe(true);
+    expect(isRetryable(new UpstreamError(url, 503))).toBe(true);
+    expect(isRetryable(new UpstreamError(url))).toBe(true);
+    expect(isRetryable(new UpstreamError(url, 400))).toBe(false);
+    expect(isRetryable(new NotFoundError(url))).toBe(false);
+    expect(isRetryable(new ParseError("bad", url))).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("accepts delta-seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("120", now)).toBe(120000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)).toBe(30000);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
+
+describe("fetching", () => {
+  test("retries 429 responses after Retry-After", async () => {
+    const url = "https://www.metacritic.com/game/pc/retry-after/";
+    let calls = 0;
+    const flaky: Transport = {
+      live: false,
+      async request() {
+        calls++;
+        return calls === 1
+          ? {
+              statusCode: 429,
+              headers: { "retry-after": "0" },
+              body: "",
+            }
+          : {
+              statusCode: 200,
+              headers: {},
+              body: '<h1 data-testid="product-title">Retried</h1>',
+            };
+      },
+    };
+    const events: DiagnosticEvent[] = [];
+
+    const game = await scrapeGamePage(url, {
+      transport: flaky,
+      delayBetweenRequestsMs: 0,
+      onDiagnostic: (e) => events.push(e),
+    });
+
+    expect(game.name).toBe("Retried");
+    expect(calls).toBe(2);
+    expect(events).toMatchObject([
+      { type: "retry", url, attempt: 1, delayMs: 0 },
+    ]);
+  });
+
+  test("gives up on 404 without retrying", async () => {
+    let calls = 0;
+    const missing: Transport = {
+      live: false,
+      async request() {
+        calls++;
+        return { statusCode: 404, headers: {}, body: "" };
+      },
+    };
+
+    await expect(
+      scrapeGamePage("https://www.metacritic.com/game/pc/gone/", {
+        transport: missing,
+        delayBetweenRequestsMs: 0,
+      })
+    ).rejects.toBeInstanceOf(NotFoundError);
+    expect(calls).toBe(1);
+  });
+
+  test("reports the finder API fallback instead of swallowing it", async () => {
+    const events: DiagnosticEvent[] = [];
+    const results = await searchGamesByName("Arc Raiders", {
+      transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+      delayBetweenRequestsMs: 0,
+      retry: false,
+      onDiagnostic: (e) => events.push(e),
+    });
+
+    expect(results[0]?.source).toBe("html");
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: "search-fallback",
+      query: "Arc Raiders",
+    });
+    const error = (events[0] as { error?: unknown }).error;
+    expect(error).toBeInstanceOf(UpstreamError);
+    expect((error as UpstreamError).statusCode).toBe(500);
+  });
+
+  test("a page without a title is a parse error", async () => {
+    const blank: Transport = {
+      live: false,
+      async request() {
+        return { statusCode: 200, headers: {}, body: "<main></main>" };
+      },
+    };
+    await expect(
+      scrapeGamePage("https://www.metacritic.com/game/pc/blank/", {
+        transport: blank,
+        delayBetweenRequestsMs: 0,
+      })
+    ).rejects.toBeInstanceOf(ParseError);
+  });
+});
@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import { createJsonLogger } from "../logger.ts";
+
+function capture(level?: "debug" | "info" | "warn" | "error") {
+  const lines: string[] = [];
+  const logger = createJsonLogger({
+    level,
+    write: (line) => lines.push(line),
+    now: () => new Date("2025-06-01T12:00:00Z"),
+  });
+  return { logger, lines };
+}
+
+test("writes one JSON object per line with time, level and message", () => {
+  const { logger, lines } = capture();
+  logger.info("request", { url: "https://www.metacritic.com/", status: 200 });
+  expect(lines).toEqual([
+    '{"time":"2025-06-01T12:00:00.000Z","level":"info","msg":"request","url":"https://www.metacritic.com/","status":200}\n',
+  ]);
+});
+
+test("drops lines below the level", () => {
+  const { logger, lines } = capture("warn");
+  logger.debug("a");
+  logger.info("b");
+  logger.warn("c");
+  logger.error("d");
+  expect(lines.map((l) => JSON.parse(l).msg)).toEqual(["c", "d"]);
+});
+
+test("serializes errors by name and message", () => {
+  const { logger, lines } = capture();
+  logger.error("failed", { error: new TypeError("boom") });
+  expect(JSON.parse(lines[0]!).error).toEqual({
+    name: "TypeError",
+    message: "boom",
+  });
+});
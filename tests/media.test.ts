@@ -0,0 +1,184 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  getMediaDetails,
+  parseMediaUrl,
+  searchMedia,
+  type MediaType,
+  type MovieDetails,
+  type PersonDetails,
+  type TvShowDetails,
+} from "../media.ts";
+import { parseRuntime } from "../media-pages.ts";
+import type { DiagnosticEvent } from "../metacritic-game-scraper.ts";
+import { DEFAULT_TTL_MS, MemoryCacheStore } from "../response-cache.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const opts = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+describe("searchMedia", () => {
+  test("searches movies with their mcoTypeId and skips other types", async () => {
+    const results = await searchMedia("Dune", "movie", opts);
+    expect(results.map((r) => r.slug)).toEqual([
+      "dune-part-one",
+      "dune-part-two",
+    ]);
+    expect(results[0]).toEqual({
+      mediaType: "movie",
+      name: "Dune",
+      slug: "dune-part-one",
+      url: "https://www.metacritic.com/movie/dune-part-one/",
+      metascore: 74,
+      releaseYear: 2021,
+      matchScore: 1,
+      source: "api",
+    });
+  });
+
+  test("falls back to the HTML search when a finder item is mistyped", async () => {
+    const events: DiagnosticEvent[] = [];
+    const results = await searchMedia("Severance", "tv", {
+      ...opts,
+      onDiagnostic: (e) => events.push(e),
+    });
+    expect(results.map((r) => [r.slug, r.metascore, r.source])).toEqual([
+      ["severance", 83, "html"],
+      ["the-severance-files", undefined, "html"],
+    ]);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: "search-fallback",
+        query: "Severance",
+        error: expect.objectContaining({
+          field: "data.items[0].premiereYear",
+        }),
+      }),
+    ]);
+  });
+
+  test("defaults to the game search", async () => {
+    const results = await searchMedia("Doom", undefined, opts);
+    expect(results[0]).toMatchObject({
+      mediaType: "game",
+      name: "DOOM",
+      url: "https://www.metacritic.com/game/pc/doom/",
+    });
+  });
+});
+
+describe("getMediaDetails", () => {
+  test("parses a movie page", async () => {
+    const movie = (await getMediaDetails(
+      "https://www.metacritic.com/movie/dune-part-two/",
+      undefined,
+      opts
+    )) as MovieDetails;
+    expect(movie).toMatchObject({
+      mediaType: "movie",
+      name: "Dune: Part Two",
+      slug: "dune-part-two",
+      metascore: 79,
+      userscore: 8.6,
+      criticReviewsCount: 67,
+      userRatingsCount: 2193,
+      releaseDate: "Mar 1, 2024",
+      runtimeMinutes: 166,
+      directors: ["Denis Villeneuve"],
+      genres: ["Action", "Adventure", "Sci-Fi"],
+      contentRating: "PG-13",
+    });
+    expect(movie.releaseDateNormalized?.iso).toBe("2024-03-01");
+  });
+
+  test("caches movie, TV and person pages for the media TTL", async () => {
+    const store = new MemoryCacheStore();
+    const url = "https://www.metacritic.com/movie/dune-part-two/";
+    await getMediaDetails(url, undefined, { ...opts, cache: { store } });
+
+    const entry = (await store.get(url))!;
+    expect(entry.expiresAt - entry.storedAt).toBe(DEFAULT_TTL_MS.media);
+  });
+
+  test("parses a show page with per-season scores in season order", async () => {
+    const show = (await getMediaDetails(
+      "severance",
+      "tv",
+      opts
+    )) as TvShowDetails;
+    expect(show).toMatchObject({
+      mediaType: "tv",
+      name: "Severance",
+      metascore: 86,
+      creators: ["Dan Erickson"],
+    });
+    expect(show.seasons).toEqual([
+      {
+        number: 1,
+        name: "Season 1",
+        url: "https://www.metacritic.com/tv/severance/season-1/",
+        metascore: 83,
+        criticReviewsCount: 24,
+        releaseYear: 2022,
+      },
+      {
+        number: 2,
+        name: "Season 2",
+        url: "https://www.metacritic.com/tv/severance/season-2/",
+        metascore: 89,
+        criticReviewsCount: 34,
+        releaseYear: 2025,
+      },
+      {
+        number: 3,
+        name: "Season 3",
+        url: "https://www.metacritic.com/tv/severance/season-3/",
+        metascore: undefined,
+        criticReviewsCount: undefined,
+        releaseYear: undefined,
+      },
+    ]);
+  });
+
+  test("parses a person's filmography across media types", async () => {
+    const person = (await getMediaDetails(
+      "https://www.metacritic.com/person/denis-villeneuve/",
+      undefined,
+      opts
+    )) as PersonDetails;
+    expect(person).toMatchObject({
+      mediaType: "person",
+      name: "Denis Villeneuve",
+      bio: "Canadian filmmaker.",
+    });
+    expect(
+      person.filmography.map((c) => [c.mediaType, c.slug, c.year, c.metascore])
+    ).toEqual([
+      ["movie", "dune-part-two", 2024, 79],
+      ["movie", "blade-runner-2049", 2017, 81],
+      ["tv", "dune-prophecy", 2024, undefined],
+    ]);
+    expect(person.filmography[1]?.role).toBe("Director");
+  });
+});
+
+test.each<[string, MediaType, string]>([
+  ["https://www.metacritic.com/movie/dune-part-two/", "movie", "dune-part-two"],
+  ["https://www.metacritic.com/tv/severance/season-2/", "tv", "severance"],
+  ["https://www.metacritic.com/game/pc/doom/", "game", "doom"],
+  ["https://www.metacritic.com/game/doom/critic-reviews/", "game", "doom"],
+])("parseMediaUrl(%p)", (url, mediaType, slug) => {
+  expect(parseMediaUrl(url)).toEqual({ mediaType, slug });
+});
+
+test.each([
+  ["PT2H46M", 166],
+  ["2 h 46 m", 166],
+  ["112 min", 112],
+  ["95", 95],
+])("parseRuntime(%p)", (text, minutes) => {
+  expect(parseRuntime(text)).toBe(minutes);
+});
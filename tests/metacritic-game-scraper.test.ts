@@ -0,0 +1,407 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getGameRatingsAndReviewsByName,
+  getReviews,
+  iterateReviews,
+  parseGamePage,
+  scrapeGamePage,
+  scrapePlatformScores,
+  type DiagnosticEvent,
+  searchGamesByName,
+} from "../metacritic-game-scraper.ts";
+import {
+  FixtureNotFoundError,
+  RecordingTransport,
+  ReplayTransport,
+  type Transport,
+} from "../transport.ts";
+
+const FIXTURES = join(import.meta.dir, "fixtures");
+
+// No spacing or retries between replayed requests
+const opts = {
+  transport: new ReplayTransport(FIXTURES),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+describe("searchGamesByName", () => {
+  test("parses finder JSON and ranks candidates by title similarity", async () => {
+    const results = await searchGamesByName("Doom", opts);
+
+    // Non-game items are dropped; the exact title outranks the finder's first hit
+    expect(results.map((r) => r.slug)).toEqual([
+      "doom",
+      "doom-eternal",
+      "doomsday-paradise",
+    ]);
+    expect(results[0]).toMatchObject({
+      name: "DOOM",
+      platforms: ["pc", "playstation-4"],
+      url: "https://www.metacritic.com/game/pc/doom/",
+      metascore: 85,
+      matchScore: 1,
+      releaseYear: 2016,
+      type: "game-title",
+    });
+    expect(results[2]?.releaseYear).toBe(2024);
+  });
+
+  test("falls back to the HTML search page when the finder API fails", async () => {
+    const results = await searchGamesByName("Arc Raiders", opts);
+
+    expect(results.map((r) => r.url)).toEqual([
+      "https://www.metacritic.com/game/arc-raiders/",
+      "https://www.metacritic.com/game/pc/raiders-of-the-broken-planet/",
+    ]);
+    expect(results[0]).toMatchObject({
+      name: "ARC Raiders",
+      slug: "arc-raiders",
+      platforms: ["pc"],
+      releaseYear: 2025,
+      matchScore: 1,
+    });
+  });
+});
+
+describe("getGameRatingsAndReviewsByName", () => {
+  test("credits each field to the search that filled it", async () => {
+    const [api] = await getGameRatingsAndReviewsByName("Doom", opts);
+    expect(api?.fieldSources).toMatchObject({
+      name: "api",
+      slug: "api",
+      metascore: "api",
+      matchScore: "computed",
+      ambiguous: "computed",
+    });
+
+    // The finder API fails for this one, so the HTML search fills it
+    const [html] = await getGameRatingsAndReviewsByName("Arc Raiders", opts);
+    expect(html?.fieldSources).toMatchObject({ name: "html", url: "html" });
+    expect(Object.values(html?.fieldSources ?? {})).not.toContain("api");
+  });
+
+  test("credits platform scores to where their scores came from", async () => {
+    const [game] = await getGameRatingsAndReviewsByName("Doom", {
+      ...opts,
+      includePlatformScores: true,
+    });
+    // The API has no userscore for DOOM on PC, so the page fills it
+    expect(game?.platformScores?.pc?.source).toBe("html");
+    expect(game?.fieldSources?.platformScores).toBe("html");
+  });
+});
+
+describe("search hints", () => {
+  test("reads year and platform hints from the query", async () => {
+    const [game] = await getGameRatingsAndReviewsByName(
+      "Resident Evil 4 (2023) on PS5",
+      opts
+    );
+    expect(game).toMatchObject({
+      slug: "resident-evil-4-2023",
+      url: "https://www.metacritic.com/game/playstation-5/resident-evil-4-2023/",
+      hints: { platform: true, releaseYear: true },
+      ambiguous: false,
+    });
+  });
+
+  test("options override the query and report unsatisfied hints", async () => {
+    const [game] = await getGameRatingsAndReviewsByName("Resident Evil 4", {
+      ...opts,
+      platform: "Xbox 360",
+      releaseYear: { from: 2000, to: 2005 },
+    });
+    // Nothing is on Xbox 360 and from 2000-2005; the 2005 original satisfies one hint
+    expect(game).toMatchObject({
+      slug: "resident-evil-4",
+      url: "https://www.metacritic.com/game/gamecube/resident-evil-4/",
+      hints: { platform: false, releaseYear: true },
+    });
+  });
+
+  test("exact matching keeps only titles equal after normalization", async () => {
+    const exact = await searchGamesByName("Resident Evil 4™", {
+      ...opts,
+      matchMode: "exact",
+    });
+    expect(exact.map((r) => r.slug)).toEqual([
+      "resident-evil-4",
+      "resident-evil-4-2023",
+    ]);
+  });
+});
+
+describe("scrapeGamePage", () => {
+  test("parses the current data-testid layout", async () => {
+    const game = await scrapeGamePage(
+      "https://www.metacritic.com/game/pc/doom/",
+      opts
+    );
+
+    expect(game).toMatchObject({
+      name: "DOOM",
+      platforms: ["pc", "playstation-4", "xbox-one"],
+      slug: "doom",
+      metascore: 85,
+      userscore: 8.1,
+      criticReviewsCount: 74,
+      userRatingsCount: 4312,
+      releaseDate: "May 13, 2016",
+      releaseDateNormalized: {
+        original: "May 13, 2016",
+        precision: "day",
+        iso: "2016-05-13",
+      },
+    });
+    // Structured JSON-LD data wins over og: tags
+    expect(game).toMatchObject({
+      developers: ["id Software"],
+      publishers: ["Bethesda Softworks"],
+      genres: ["FPS", "Action"],
+      contentRating: "ESRB M",
+      summary:
+        "Developed by id software, the studio that pioneered the first-person shooter genre.",
+      coverImageUrl:
+        "https://www.metacritic.com/a/img/catalog/provider/6/3/6-1-doom.jpg",
+      criticDistribution: { positive: 68, mixed: 6, negative: 0 },
+      userDistribution: { positive: 3511, mixed: 402, negative: 399 },
+    });
+    expect(game.reviews).toEqual([
+      {
+        type: "critic",
+        source: "PC Gamer",
+        quote: "A brilliant return to form.",
+        score: 86,
+        date: "2016-05-20",
+        dateNormalized: {
+          original: "May 20, 2016",
+          precision: "day",
+          iso: "2016-05-20",
+          year: 2016,
+          month: 5,
+        },
+        url: "https://www.pcgamer.com/doom-review/",
+      },
+      {
+        type: "critic",
+        source: "GameSpot",
+        quote: "Fast and brutal, if thin on ideas.",
+        score: 70,
+        date: "2016-05-18",
+        dateNormalized: {
+          original: "May 18, 2016",
+          precision: "day",
+          iso: "2016-05-18",
+          year: 2016,
+          month: 5,
+        },
+        url: undefined,
+      },
+      {
+        type: "user",
+        source: "slayer99",
+        quote: "Rip and tear.",
+        score: 10,
+        date: "2016-05-14",
+        dateNormalized: {
+          original: "May 14, 2016",
+          precision: "day",
+          iso: "2016-05-14",
+          year: 2016,
+          month: 5,
+        },
+      },
+    ]);
+  });
+
+  test("parses the legacy .metascore_w layout", async () => {
+    const game = await scrapeGamePage(
+      "https://www.metacritic.com/game/playstation-4/grand-theft-auto-v/",
+      opts
+    );
+
+    expect(game).toMatchObject({
+      name: "Grand Theft Auto V",
+      platforms: ["playstation-4"],
+      slug: "grand-theft-auto-v",
+      metascore: 97,
+      userscore: 8.3,
+      criticReviewsCount: 66,
+      userRatingsCount: 5620,
+      releaseDate: "Nov 18, 2014",
+    });
+    expect(game).toMatchObject({
+      developers: ["Rockstar North"],
+      publishers: ["Rockstar Games"],
+      genres: ["Action Adventure", "Open-World"],
+      contentRating: "M",
+      summary: "Los Santos: a sprawling sun-soaked metropolis.",
+      coverImageUrl:
+        "https://static.metacritic.com/images/products/games/gta-v-ps4.jpg",
+      criticDistribution: { positive: 66, mixed: 0, negative: 0 },
+    });
+    expect(game.userDistribution).toBeUndefined();
+    expect(game.reviews?.map((r) => [r.type, r.source, r.score])).toEqual([
+      ["critic", "IGN", 100],
+      ["user", "nico_b", 6],
+    ]);
+    expect(game.reviews?.[0]?.url).toBe(
+      "https://www.ign.com/articles/gta-5-ps4-review"
+    );
+  });
+
+  test("reads JSON-LD from an @graph and skips nodes it can't use", () => {
+    const ld = {
+      "@graph": [
+        null,
+        "not a node",
+        { "@type": "WebPage", name: "Page" },
+        {
+          "@type": ["VideoGame", "Product"],
+          name: "Mosswood",
+          publisher: [{ name: " Fernlight " }, 42, { name: "" }],
+          contentRating: { "@type": "Rating", name: "ESRB E" },
+          image: [{ url: "https://example.com/mosswood.jpg" }],
+        },
+      ],
+    };
+    const game = parseGamePage(
+      `<h1 data-testid="product-title">Mosswood</h1>
+      <script type="application/ld+json">${JSON.stringify(ld)}</script>`,
+      "https://www.metacritic.com/game/pc/mosswood/"
+    );
+    expect(game).toMatchObject({
+      publishers: ["Fernlight"],
+      contentRating: "ESRB E",
+      coverImageUrl: "https://example.com/mosswood.jpg",
+    });
+  });
+});
+
+describe("scrapePlatformScores", () => {
+  test("keeps the platforms that load and reports the ones that fail", async () => {
+    const events: DiagnosticEvent[] = [];
+    const scores = await scrapePlatformScores("doom", ["pc", "switch"], {
+      ...opts,
+      onDiagnostic: (e) => events.push(e),
+    });
+
+    expect(Object.keys(scores)).toEqual(["pc"]);
+    expect(scores.pc).toMatchObject({
+      platform: "pc",
+      url: "https://www.metacritic.com/game/pc/doom/",
+      metascore: 85,
+    });
+    // The switch page answered 503
+    const failed = events.filter((e) => e.type === "platform-scores-failed");
+    expect(failed).toEqual([
+      expect.objectContaining({
+        slug: "doom",
+        platform: "switch",
+        url: "https://www.metacritic.com/game/switch/doom/",
+      }),
+    ]);
+  });
+});
+
+describe("reviews", () => {
+  test("follows pages until a short one without a next link", async () => {
+    // Page 0 is full without a next link, page 1 repeats two of its reviews, page 2 is short
+    const reviews = await getReviews("doom", {}, opts);
+    const critic = reviews.filter((r) => r.type === "critic");
+
+    expect(critic).toHaveLength(23);
+    expect(new Set(critic.map((r) => r.quote)).size).toBe(23);
+    expect(reviews.filter((r) => r.type === "user")).toHaveLength(2);
+    expect(critic[0]).toMatchObject({
+      type: "critic",
+      source: "Outlet 1",
+      score: 95,
+      date: "2016-05-13",
+      quote: "Critic quote 1.",
+    });
+  });
+
+  test("stops when a page repeats the previous one", async () => {
+    // There's no fixture past page 1, so requesting it would fail
+    const reviews = await getReviews("quake", { type: "critic" }, opts);
+    expect(reviews.map((r) => r.source)).toEqual([
+      "Outlet 100",
+      "Outlet 101",
+      "Outlet 102",
+    ]);
+  });
+
+  test.each([
+    [{ type: "critic" as const, minScore: 80 }, 8],
+    [{ sentiment: "negative" as const }, 4],
+    [
+      {
+        sentiment: ["positive" as const, "mixed" as const],
+        type: "user" as const,
+      },
+      1,
+    ],
+    [{ type: "critic" as const, since: "2016-05-20", until: "2016-05-24" }, 5],
+  ])("filters %p", async (filters, count) => {
+    expect(await getReviews("doom", filters, opts)).toHaveLength(count);
+  });
+
+  test("date filters compare the review date", async () => {
+    const quotes = [];
+    for await (const review of iterateReviews(
+      "doom",
+      { type: "critic", since: new Date("2016-05-20"), until: "2016-05-24" },
+      opts
+    )) {
+      quotes.push(review.quote);
+    }
+    expect(quotes).toEqual([
+      "Critic quote 8.",
+      "Critic quote 9.",
+      "Critic quote 10.",
+      "Critic quote 11.",
+      "Critic quote 12.",
+    ]);
+  });
+});
+
+describe("transports", () => {
+  test("RecordingTransport saves fixtures that ReplayTransport serves back", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "metacritic-fixtures-"));
+    const stub: Transport = {
+      live: false,
+      async request({ url }) {
+        return {
+          statusCode: 200,
+          headers: { "content-type": "text/html" },
+          body: `<h1 data-testid="product-title">Recorded</h1><p>${url}</p>`,
+        };
+      },
+    };
+    const url = "https://www.metacritic.com/game/switch/recorded/";
+
+    await scrapeGamePage(url, {
+      transport: new RecordingTransport(dir, stub),
+      delayBetweenRequestsMs: 0,
+    });
+    expect((await readdir(dir)).sort()).toHaveLength(2);
+
+    const replayed = await scrapeGamePage(url, {
+      transport: new ReplayTransport(dir),
+      delayBetweenRequestsMs: 0,
+    });
+    expect(replayed.name).toBe("Recorded");
+    expect(replayed.platforms).toEqual(["switch"]);
+  });
+
+  test("ReplayTransport rejects URLs without a fixture", async () => {
+    await expect(
+      scrapeGamePage("https://www.metacritic.com/game/pc/not-recorded/", opts)
+    ).rejects.toBeInstanceOf(FixtureNotFoundError);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { RequestMetric } from "../http.ts";
+import { createJsonLogger } from "../logger.ts";
+import {
+  searchGamesByName,
+  type DiagnosticEvent,
+} from "../metacritic-game-scraper.ts";
+import { instrument, MetricsCollector } from "../metrics.ts";
+import { MemoryCacheStore } from "../response-cache.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const opts = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+function metric(overrides: Partial<RequestMetric>): RequestMetric {
+  return {
+    url: "https://www.metacritic.com/game/pc/doom/",
+    kind: "game",
+    path: "html",
+    cacheHit: false,
+    attempts: 1,
+    status: 200,
+    latencyMs: 100,
+    bytes: 1000,
+    ...overrides,
+  };
+}
+
+describe("MetricsCollector", () => {
+  test("summarizes fetches, latency and diagnostics", () => {
+    const metrics = new MetricsCollector();
+    metrics.record(metric({ latencyMs: 100 }));
+    metrics.record(metric({ latencyMs: 300, attempts: 3, path: "api" }));
+    metrics.record(
+      metric({ cacheHit: true, attempts: 0, status: undefined, latencyMs: 1 })
+    );
+    metrics.record(
+      metric({ status: 404, bytes: 0, latencyMs: 200, error: "NotFoundError" })
+    );
+    metrics.recordDiagnostic({
+      type: "game-fallback",
+      slug: "doom",
+      reason: "x",
+    });
+
+    expect(metrics.summary()).toMatchObject({
+      requests: 4,
+      network: 3,
+      cacheHits: 1,
+      failed: 1,
+      retries: 2,
+      bytes: 3000,
+      api: 1,
+      html: 3,
+      statuses: { "200": 2, "404": 1 },
+      latencyMs: { mean: 200, p50: 200, p95: 300, max: 300 },
+      diagnostics: { "game-fallback": 1 },
+    });
+  });
+});
+
+describe("instrument", () => {
+  test("reports the api -> html fallback, cache hits and a log line per fetch", async () => {
+    const lines: string[] = [];
+    const metrics = new MetricsCollector();
+    const scrape = instrument(
+      { ...opts, cache: { store: new MemoryCacheStore() } },
+      {
+        logger: createJsonLogger({
+          level: "debug",
+          write: (line) => lines.push(line),
+        }),
+        metrics,
+      }
+    );
+
+    await searchGamesByName("Arc Raiders", scrape);
+    await searchGamesByName("Arc Raiders", scrape);
+
+    expect(
+      metrics.requests.map((m) => [m.path, m.status, m.cacheHit, m.error])
+    ).toEqual([
+      ["api", 500, false, "UpstreamError"],
+      ["html", 200, false, undefined],
+      // The failed finder call isn't cached, so it's fetched again
+      ["api", 500, false, "UpstreamError"],
+      ["html", undefined, true, undefined],
+    ]);
+    expect(metrics.summary().diagnostics).toEqual({ "search-fallback": 2 });
+    expect(lines.map((l) => JSON.parse(l).msg)).toEqual([
+      "request-failed",
+      "search-fallback",
+      "request",
+      "request-failed",
+      "search-fallback",
+      "request",
+    ]);
+  });
+});
+
+test("debugDumpDir saves responses that replay the same lookup offline", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "metacritic-dump-"));
+  const live = await searchGamesByName("Arc Raiders", {
+    ...opts,
+    debugDumpDir: dir,
+  });
+  // The failed finder response and the search page
+  expect(await readdir(dir)).toHaveLength(4);
+
+  const replayed = await searchGamesByName("Arc Raiders", {
+    ...opts,
+    transport: new ReplayTransport(dir),
+  });
+  expect(replayed).toEqual(live);
+});
+
+test("a dump that can't be written is reported, not thrown", async () => {
+  // A file where the dump directory should be
+  const dir = join(await mkdtemp(join(tmpdir(), "metacritic-dump-")), "file");
+  await writeFile(dir, "");
+  const events: DiagnosticEvent[] = [];
+  const dumping = {
+    ...opts,
+    cache: { store: new MemoryCacheStore() },
+    debugDumpDir: dir,
+    onDiagnostic: (e: DiagnosticEvent) => events.push(e),
+  };
+
+  // Once from the network, once from the cache
+  const live = await searchGamesByName("Doom", dumping);
+  expect(await searchGamesByName("Doom", dumping)).toEqual(live);
+  expect(live[0]?.slug).toBe("doom");
+  expect(events.map((e) => e.type)).toEqual(["dump-failed", "dump-failed"]);
+  expect(events[0]).toMatchObject({
+    dir,
+    url: expect.stringContaining("/finder/metacritic/search/Doom/"),
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { formatOutput, type Column } from "../output.ts";
+
+interface Row {
+  name: string;
+  score?: number;
+}
+
+const ROWS: Row[] = [{ name: "DOOM", score: 85 }, { name: 'Say "Hi", Bob' }];
+const COLUMNS: Column<Row>[] = [
+  { header: "name", value: (r) => r.name },
+  { header: "score", value: (r) => r.score },
+];
+
+describe("formatOutput", () => {
+  test("keeps a single record as an object in JSON", () => {
+    expect(JSON.parse(formatOutput(ROWS[0]!, "json", COLUMNS))).toEqual({
+      name: "DOOM",
+      score: 85,
+    });
+  });
+
+  test("writes one line per record in NDJSON", () => {
+    expect(formatOutput(ROWS, "ndjson", COLUMNS)).toBe(
+      '{"name":"DOOM","score":85}\n{"name":"Say \\"Hi\\", Bob"}'
+    );
+  });
+
+  test("quotes CSV cells that need it", () => {
+    expect(formatOutput(ROWS, "csv", COLUMNS)).toBe(
+      ["name,score", "DOOM,85", '"Say ""Hi"", Bob",'].join("\n")
+    );
+  });
+
+  test("right-aligns numeric table columns", () => {
+    expect(formatOutput(ROWS, "table", COLUMNS)).toBe(
+      [
+        "name           score",
+        "-------------  -----",
+        "DOOM              85",
+        'Say "Hi", Bob      -',
+      ].join("\n")
+    );
+  });
+});
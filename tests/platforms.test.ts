@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getPlatform,
+  isPlatform,
+  normalizePlatform,
+  PLATFORMS,
+  platformName,
+  resolvePlatforms,
+} from "../platforms.ts";
+
+describe("platform registry", () => {
+  test("maps names and aliases to slugs and back", () => {
+    expect(normalizePlatform("PlayStation 5")).toBe("playstation-5");
+    expect(normalizePlatform("ps5")).toBe("playstation-5");
+    expect(normalizePlatform("playstation-5")).toBe("playstation-5");
+    expect(normalizePlatform("Nintendo Switch")).toBe("switch");
+    expect(normalizePlatform("Xbox Series X|S")).toBe("xbox-series-x");
+    expect(platformName("switch")).toBe("Nintendo Switch");
+    for (const info of PLATFORMS) {
+      expect(normalizePlatform(platformName(info.slug))).toBe(info.slug);
+    }
+  });
+
+  test("matches whole names, not substrings", () => {
+    expect(normalizePlatform("PC Engine")).toBeUndefined();
+    expect(normalizePlatform("Macross")).toBeUndefined();
+    expect(normalizePlatform("Nintendo Switch 2")).toBe("nintendo-switch-2");
+    expect(normalizePlatform("")).toBeUndefined();
+  });
+
+  test("exposes manufacturer and generation", () => {
+    expect(getPlatform("Wii U")).toMatchObject({
+      slug: "wii-u",
+      manufacturer: "Nintendo",
+      generation: 8,
+    });
+    expect(getPlatform("PC")?.generation).toBeUndefined();
+  });
+
+  test("isPlatform only accepts canonical slugs", () => {
+    expect(isPlatform("playstation-4")).toBe(true);
+    expect(isPlatform("PS4")).toBe(false);
+  });
+
+  test("resolvePlatforms dedupes known platforms and reports unknown ones", () => {
+    expect(
+      resolvePlatforms([
+        "PC",
+        "PlayStation 4",
+        "PS4",
+        "PC Engine",
+        undefined,
+        " ",
+      ])
+    ).toEqual({ platforms: ["pc", "playstation-4"], unknown: ["PC Engine"] });
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RobotsDisallowedError } from "../errors.ts";
+import { scrapeGamePage } from "../metacritic-game-scraper.ts";
+import {
+  clearRobotsCache,
+  isAllowedByRobots,
+  matchRobotsRule,
+  parseRobotsTxt,
+} from "../politeness.ts";
+import { resetSchedulers } from "../request-scheduler.ts";
+import {
+  RecordingTransport,
+  ReplayTransport,
+  type Transport,
+} from "../transport.ts";
+
+const SAMPLE = await Bun.file(
+  join(import.meta.dir, "fixtures", "robots.txt")
+).text();
+
+describe("parseRobotsTxt", () => {
+  const robots = parseRobotsTxt(SAMPLE);
+
+  test("groups consecutive user-agent lines", () => {
+    expect(robots.groups).toHaveLength(2);
+    expect(robots.groups[1]).toMatchObject({
+      agents: ["metacritic-scraper", "researchbot"],
+      crawlDelaySeconds: 0.3,
+    });
+    expect(robots.sitemaps).toEqual(["https://www.metacritic.com/sitemap.xml"]);
+  });
+
+  test.each([
+    ["https://www.metacritic.com/game/pc/doom/", true],
+    ["https://www.metacritic.com/search/doom/?category=13", false],
+    ["https://www.metacritic.com/game/pc/doom/user-reviews/?page=2", false],
+    ["https://www.metacritic.com/game/pc/doom/critic-reviews/", true],
+    ["https://www.metacritic.com/game/pc/doom/data.json", false],
+    ["https://www.metacritic.com/game/pc/doom/data.json?v=2", true],
+    // No rule matches, so it's allowed
+    ["https://www.metacritic.com/browse/game/", true],
+  ])("%s allowed: %p", (url, allowed) => {
+    expect(isAllowedByRobots(robots, url)).toBe(allowed);
+  });
+
+  test("falls back to the * group for other agents", () => {
+    expect(
+      isAllowedByRobots(
+        robots,
+        "https://www.metacritic.com/game/pc/doom/",
+        "OtherBot/2.0"
+      )
+    ).toBe(false);
+  });
+
+  test("the longest match wins, and Allow wins a tie", () => {
+    const rules = parseRobotsTxt(
+      [
+        "User-agent: *",
+        "Disallow: /game",
+        "Allow: /game",
+        "Disallow: /game/pc/",
+      ].join("\n")
+    );
+    expect(matchRobotsRule(rules, "https://x.test/game/ps5/")).toEqual({
+      allow: true,
+      pattern: "/game",
+    });
+    expect(matchRobotsRule(rules, "https://x.test/game/pc/doom/")).toEqual({
+      allow: false,
+      pattern: "/game/pc/",
+    });
+  });
+});
+
+// Stands in for www.metacritic.com
+let site: ReturnType<typeof Bun.serve>;
+let robotsStatus = 200;
+const requests: { path: string; at: number; headers: Headers }[] = [];
+
+beforeAll(() => {
+  site = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const path = new URL(req.url).pathname;
+      requests.push({ path, at: Date.now(), headers: req.headers });
+      if (path === "/robots.txt") {
+        return new Response(robotsStatus === 200 ? SAMPLE : "", {
+          status: robotsStatus,
+        });
+      }
+      return new Response(`<h1 data-testid="product-title">${path}</h1>`, {
+        headers: { "content-type": "text/html" },
+      });
+    },
+  });
+});
+
+afterAll(() => site.stop(true));
+
+beforeEach(() => {
+  clearRobotsCache();
+  resetSchedulers();
+  requests.length = 0;
+  robotsStatus = 200;
+});
+
+function scrape(path: string, extra = {}) {
+  return scrapeGamePage(`https://www.metacritic.com${path}`, {
+    baseUrls: { site: site.url.href },
+    delayBetweenRequestsMs: 0,
+    retry: false,
+    ...extra,
+  });
+}
+
+describe("robots.txt enforcement", () => {
+  test("fetches robots.txt once per host and honors Crawl-delay", async () => {
+    await scrape("/game/pc/doom/");
+    await scrape("/game/pc/quake/");
+
+    expect(requests.map((r) => r.path)).toEqual([
+      "/robots.txt",
+      "/game/pc/doom/",
+      "/game/pc/quake/",
+    ]);
+    // Crawl-delay: 0.3 outweighs delayBetweenRequestsMs: 0
+    expect(requests[2]!.at - requests[1]!.at).toBeGreaterThanOrEqual(290);
+  });
+
+  test("refuses disallowed paths without requesting them", async () => {
+    const error = await scrape("/game/pc/doom/user-reviews/").catch((e) => e);
+    expect(error).toBeInstanceOf(RobotsDisallowedError);
+    expect(error.message).toContain("Disallow: /game/*/user-reviews/");
+    expect(requests.map((r) => r.path)).toEqual(["/robots.txt"]);
+  });
+
+  test("matches groups by the configured User-Agent's product token", async () => {
+    await expect(
+      scrape("/game/pc/doom/", { userAgent: "OtherBot/2.0" })
+    ).rejects.toBeInstanceOf(RobotsDisallowedError);
+    await scrape("/game/pc/doom/", { userAgent: "ResearchBot/0.1" });
+  });
+
+  test("sends an honest User-Agent with the contact address", async () => {
+    await scrape("/game/pc/doom/", { contact: "ops@example.com" });
+    const headers = requests.at(-1)!.headers;
+    expect(headers.get("user-agent")).toBe(
+      "metacritic-scraper/1.0 (+ops@example.com)"
+    );
+    expect(headers.get("from")).toBe("ops@example.com");
+  });
+
+  test("a missing robots.txt allows everything", async () => {
+    robotsStatus = 404;
+    await scrape("/search/doom/");
+  });
+
+  test("an unreachable robots.txt disallows everything", async () => {
+    robotsStatus = 503;
+    const error = await scrape("/game/pc/doom/").catch((e) => e);
+    expect(error).toBeInstanceOf(RobotsDisallowedError);
+    expect(error.message).toContain("could not be fetched");
+  });
+
+  test("recording live traffic still checks robots.txt", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "metacritic-recording-"));
+    await scrape("/game/pc/doom/", { transport: new RecordingTransport(dir) });
+    expect(requests.map((r) => r.path)).toEqual([
+      "/robots.txt",
+      "/game/pc/doom/",
+    ]);
+  });
+
+  test("transports that aren't live skip the check", async () => {
+    const stub: Transport = {
+      live: false,
+      async request({ url }) {
+        return {
+          statusCode: 200,
+          headers: {},
+          body: `<h1 data-testid="product-title">${url}</h1>`,
+        };
+      },
+    };
+    // Disallowed by robots.txt, which isn't consulted
+    await scrape("/search/doom/", { transport: stub });
+    expect(new ReplayTransport(import.meta.dir).live).toBe(false);
+  });
+
+  test("robotsTxt: false skips the check", async () => {
+    await scrape("/search/doom/", { robotsTxt: false });
+    expect(requests.map((r) => r.path)).toEqual(["/search/doom/"]);
+  });
+});
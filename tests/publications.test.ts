@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  computePublicationStats,
+  getPublicationProfile,
+  iteratePublicationReviews,
+  publicationSlug,
+  type PublicationReview,
+} from "../publications.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const opts = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+describe("getPublicationProfile", () => {
+  test("pages through an outlet's reviews across layouts", async () => {
+    const profile = await getPublicationProfile("IGN", {}, opts);
+    expect(profile).toMatchObject({
+      slug: "ign",
+      name: "IGN",
+      url: "https://www.metacritic.com/publication/ign/",
+    });
+    expect(
+      profile.reviews.map((r) => [r.gameSlug, r.platform, r.score, r.metascore])
+    ).toEqual([
+      ["doom-the-dark-ages", "pc", 90, 85],
+      ["mindseye", "playstation-5", 40, 38],
+      ["split-fiction", undefined, 70, 91],
+      ["mario-kart-world", "switch", 88, 86],
+      ["unscored-indie", "pc", undefined, undefined],
+    ]);
+    expect(profile.reviews[0]).toMatchObject({
+      type: "critic",
+      source: "IGN",
+      gameName: "DOOM: The Dark Ages",
+      gameUrl: "https://www.metacritic.com/game/pc/doom-the-dark-ages/",
+      date: "2025-05-12",
+      quote: "A thunderous, medieval DOOM.",
+      url: "https://www.ign.com/articles/doom-the-dark-ages-review",
+    });
+    expect(profile.stats).toEqual({
+      reviewCount: 5,
+      scoredCount: 4,
+      meanScore: 72,
+      distribution: { positive: 2, mixed: 1, negative: 1 },
+      comparedCount: 4,
+      averageDeviation: -3,
+      averageAbsoluteDeviation: 7.5,
+    });
+  });
+
+  test("stops at maxReviews and maxPages", async () => {
+    const slugs = async (options: {
+      maxReviews?: number;
+      maxPages?: number;
+    }) => {
+      const out: string[] = [];
+      for await (const r of iteratePublicationReviews("ign", options, opts)) {
+        out.push(r.gameSlug);
+      }
+      return out;
+    };
+    expect(await slugs({ maxReviews: 2 })).toEqual([
+      "doom-the-dark-ages",
+      "mindseye",
+    ]);
+    expect(await slugs({ maxPages: 1 })).toHaveLength(3);
+  });
+});
+
+test("computePublicationStats with no scored reviews", () => {
+  const review: PublicationReview = {
+    type: "critic",
+    gameSlug: "x",
+    gameUrl: "https://www.metacritic.com/game/x/",
+  };
+  expect(computePublicationStats([review])).toEqual({
+    reviewCount: 1,
+    scoredCount: 0,
+    meanScore: undefined,
+    distribution: { positive: 0, mixed: 0, negative: 0 },
+    comparedCount: 0,
+    averageDeviation: undefined,
+    averageAbsoluteDeviation: undefined,
+  });
+});
+
+test.each([
+  ["IGN", "ign"],
+  ["PC Gamer", "pc-gamer"],
+  ["Push Square", "push-square"],
+  ["Digital Trends & Co.", "digital-trends-and-co"],
+  ["pc-gamer", "pc-gamer"],
+])("publicationSlug(%p)", (name, slug) => {
+  expect(publicationSlug(name)).toBe(slug);
+});
@@ -0,0 +1,251 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { normalizeDate } from "../dates.ts";
+import {
+  getReleaseCalendar,
+  mergeReleaseEvents,
+  toICalendar,
+  toJsonFeed,
+  toRss,
+  type ReleaseCalendarOptions,
+  type ReleaseEvent,
+} from "../releases.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const opts = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const LATER = new Date("2026-10-26T12:00:00Z");
+
+const PS5_WINDOW: ReleaseCalendarOptions = {
+  from: new Date("2026-10-01"),
+  to: new Date("2027-01-31"),
+  platform: "playstation-5",
+  now: NOW,
+};
+
+function event(overrides: Partial<ReleaseEvent> = {}): ReleaseEvent {
+  return {
+    id: "mosswood",
+    name: "Mosswood",
+    url: "https://www.metacritic.com/game/playstation-5/mosswood/",
+    platforms: ["playstation-5"],
+    releaseDate: normalizeDate("2026-11-12")!,
+    status: "upcoming",
+    sequence: 0,
+    updatedAt: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+describe("getReleaseCalendar", () => {
+  test("collects both listings within the window, earliest first", async () => {
+    const events = await getReleaseCalendar(PS5_WINDOW, opts);
+
+    // Starfall Odyssey is after the window, Ashen Roads before it, and the racing game has no date
+    expect(events.map((e) => [e.id, e.releaseDate.iso, e.status])).toEqual([
+      ["hollow-crown", "2026-10-08", "reviewed"],
+      ["tidebreaker", "2026-10-15", "released"],
+      ["mosswood", "2026-11-12", "upcoming"],
+      ["lantern-keep", "2026-12-03", "upcoming"],
+      ["iron-harvest-frontier", "2027-01-14", "upcoming"],
+    ]);
+    expect(events[0]).toEqual({
+      id: "hollow-crown",
+      name: "Hollow Crown",
+      url: "https://www.metacritic.com/game/playstation-5/hollow-crown/",
+      platforms: ["playstation-5", "pc"],
+      releaseDate: {
+        original: "2026-10-08",
+        precision: "day",
+        iso: "2026-10-08",
+        year: 2026,
+        month: 10,
+      },
+      status: "reviewed",
+      metascore: 88,
+      userscore: 8.1,
+      sequence: 0,
+      updatedAt: NOW.toISOString(),
+    });
+  });
+
+  test("revises events whose scores changed since the previous export", async () => {
+    const previous = await getReleaseCalendar(PS5_WINDOW, opts);
+    const tidebreaker = previous.find((e) => e.id === "tidebreaker")!;
+    const events = await getReleaseCalendar(
+      {
+        ...PS5_WINDOW,
+        now: LATER,
+        // As if Hollow Crown had no reviews yet last time
+        previous: previous.map((e) =>
+          e.id === "hollow-crown"
+            ? { ...e, metascore: undefined, status: "released" as const }
+            : e
+        ),
+      },
+      opts
+    );
+
+    expect(events.find((e) => e.id === "hollow-crown")).toMatchObject({
+      metascore: 88,
+      sequence: 1,
+      updatedAt: LATER.toISOString(),
+    });
+    expect(events.find((e) => e.id === "tidebreaker")).toEqual(tidebreaker);
+  });
+
+  test("keeps previous events that left the listings and looks up their scores", async () => {
+    const events = await getReleaseCalendar(
+      {
+        ...PS5_WINDOW,
+        listings: ["upcoming"],
+        previous: [
+          event({
+            id: "doom",
+            name: "DOOM",
+            url: "https://www.metacritic.com/game/pc/doom/",
+            releaseDate: normalizeDate("2026-10-05")!,
+            status: "released",
+          }),
+          // Before the window: dropped
+          event({ id: "old", releaseDate: normalizeDate("2026-08-01")! }),
+        ],
+      },
+      opts
+    );
+
+    expect(events[0]).toMatchObject({
+      id: "doom",
+      status: "reviewed",
+      metascore: 85,
+      sequence: 1,
+    });
+    expect(events.map((e) => e.id)).not.toContain("old");
+  });
+
+  test("applies maxResults to the titles in the window, earliest first", async () => {
+    // The listing starts with Starfall Odyssey and Iron Harvest, both further out
+    const events = await getReleaseCalendar(
+      { ...PS5_WINDOW, listings: ["upcoming"], maxResults: 2 },
+      opts
+    );
+    expect(events.map((e) => e.id)).toEqual(["mosswood", "lantern-keep"]);
+  });
+});
+
+describe("mergeReleaseEvents", () => {
+  test("starts new events at sequence 0 and bumps changed ones", () => {
+    const previous = [event({ sequence: 2 })];
+    const moved = event({ releaseDate: normalizeDate("2026-11-19")! });
+    const [merged, added] = mergeReleaseEvents(
+      previous,
+      [moved, event({ id: "new-game" })],
+      LATER
+    );
+    expect(merged).toMatchObject({
+      sequence: 3,
+      updatedAt: LATER.toISOString(),
+    });
+    expect(added).toMatchObject({
+      sequence: 0,
+      updatedAt: LATER.toISOString(),
+    });
+  });
+
+  test("bumps events whose platforms changed", () => {
+    const previous = [event({ platforms: ["playstation-5", "pc"] })];
+    const [reordered] = mergeReleaseEvents(
+      previous,
+      [event({ platforms: ["pc", "playstation-5"] })],
+      LATER
+    );
+    expect(reordered?.sequence).toBe(0);
+
+    const [ported] = mergeReleaseEvents(
+      previous,
+      [event({ platforms: ["playstation-5", "pc", "switch"] })],
+      LATER
+    );
+    expect(ported).toMatchObject({
+      sequence: 1,
+      updatedAt: LATER.toISOString(),
+    });
+  });
+});
+
+describe("feeds", () => {
+  const events = [
+    event({
+      name: "Mosswood: Roots, Rivers; and a Very Long Subtitle That Needs Folding",
+      platforms: ["playstation-5", "xbox-series-x"],
+      metascore: 81,
+      status: "reviewed",
+      sequence: 1,
+    }),
+    event({
+      id: "lantern-keep",
+      name: "Lantern Keep",
+      releaseDate: normalizeDate("Q1 2027")!,
+    }),
+  ];
+
+  test("writes an iCalendar all-day event per release", () => {
+    const ics = toICalendar(events, { now: NOW });
+    const lines = ics.split("\r\n");
+
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(lines).toContain("UID:mosswood@metacritic-scraper");
+    expect(lines).toContain("DTSTAMP:20261019T120000Z");
+    expect(lines).toContain("SEQUENCE:1");
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261112");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261113");
+    expect(lines).toContain(
+      "URL:https://www.metacritic.com/game/playstation-5/mosswood/"
+    );
+    // Coarse dates sit on the first day of their period
+    expect(lines).toContain("DTSTART;VALUE=DATE:20270101");
+    expect(lines).toContain("STATUS:TENTATIVE");
+    expect(lines.every((l) => new TextEncoder().encode(l).length <= 75)).toBe(
+      true
+    );
+
+    // Unfolded, the summary is escaped text
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).toContain(
+      "SUMMARY:Mosswood: Roots\\, Rivers\\; and a Very Long Subtitle That Needs Folding (Metascore 81)"
+    );
+    expect(unfolded).toContain(
+      "DESCRIPTION:Platforms: PlayStation 5\\, Xbox Series X\\nRelease date: 2026-11-12\\nMetascore: 81\\n"
+    );
+  });
+
+  test("writes a JSON Feed item per release", () => {
+    const feed = JSON.parse(toJsonFeed(events, { title: "PS5 releases" }));
+    expect(feed).toMatchObject({
+      version: "https://jsonfeed.org/version/1.1",
+      title: "PS5 releases",
+    });
+    expect(feed.items[0]).toMatchObject({
+      id: "mosswood",
+      url: "https://www.metacritic.com/game/playstation-5/mosswood/",
+      date_published: "2026-11-12T00:00:00.000Z",
+      date_modified: NOW.toISOString(),
+      tags: ["playstation-5", "xbox-series-x"],
+      _metacritic: { status: "reviewed", metascore: 81, sequence: 1 },
+    });
+  });
+
+  test("writes an RSS item per release", () => {
+    const rss = toRss(events, { now: NOW });
+    expect(rss).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(rss).toContain('<guid isPermaLink="false">lantern-keep</guid>');
+    expect(rss).toContain("<pubDate>Mon, 19 Oct 2026 12:00:00 GMT</pubDate>");
+    expect(rss).toContain("<category>Xbox Series X</category>");
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  getSchedulerStats,
+  resetSchedulers,
+  scheduleRequest,
+} from "../request-scheduler.ts";
+
+const URL_A = "https://scheduler.test/a";
+
+beforeEach(() => resetSchedulers());
+
+/**
+ * Schedule `count` tasks that each take `taskMs`, recording when each starts.
+ */
+async function runTasks(
+  count: number,
+  opts: Parameters<typeof scheduleRequest>[1],
+  taskMs = 0
+) {
+  const startedAt = Date.now();
+  const starts: number[] = [];
+  let active = 0;
+  let maxActive = 0;
+  await Promise.all(
+    Array.from({ length: count }, () =>
+      scheduleRequest(URL_A, opts, async () => {
+        starts.push(Date.now() - startedAt);
+        maxActive = Math.max(maxActive, ++active);
+        await Bun.sleep(taskMs);
+        active--;
+      })
+    )
+  );
+  return { starts, maxActive };
+}
+
+describe("scheduleRequest", () => {
+  test("spaces request starts by the delay", async () => {
+    const { starts } = await runTasks(3, { delayBetweenRequestsMs: 50 });
+    expect(starts[1]! - starts[0]!).toBeGreaterThanOrEqual(45);
+    expect(starts[2]! - starts[1]!).toBeGreaterThanOrEqual(45);
+  });
+
+  test("caps concurrent requests per host", async () => {
+    const { maxActive } = await runTasks(
+      5,
+      { concurrency: 2, delayBetweenRequestsMs: 0 },
+      30
+    );
+    expect(maxActive).toBe(2);
+    expect(getSchedulerStats()["scheduler.test"]).toMatchObject({
+      activeCount: 0,
+      pendingCount: 0,
+      concurrency: 2,
+      delayMs: 0,
+    });
+  });
+
+  test("the strictest limits win when callers disagree", async () => {
+    await scheduleRequest(
+      URL_A,
+      { concurrency: 1, delayBetweenRequestsMs: 0 },
+      async () => {}
+    );
+    await scheduleRequest(
+      URL_A,
+      { concurrency: 4, delayBetweenRequestsMs: 20 },
+      async () => {}
+    );
+    expect(getSchedulerStats()["scheduler.test"]).toMatchObject({
+      concurrency: 1,
+      delayMs: 20,
+    });
+
+    resetSchedulers();
+    expect(getSchedulerStats()).toEqual({});
+  });
+
+  test.each([
+    [{ concurrency: Number.NaN }, "concurrency must be a positive integer"],
+    [{ concurrency: 0 }, "concurrency must be a positive integer"],
+    [{ concurrency: 1.5 }, "concurrency must be a positive integer"],
+    [{ delayBetweenRequestsMs: -1 }, "delayBetweenRequestsMs must be"],
+    [{ delayBetweenRequestsMs: Number.NaN }, "delayBetweenRequestsMs must be"],
+  ])("rejects %p", (opts, message) => {
+    expect(() => scheduleRequest(URL_A, opts, async () => {})).toThrow(message);
+  });
+});
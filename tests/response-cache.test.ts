@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AbortedError } from "../errors.ts";
+import { fetchText } from "../http.ts";
+import {
+  CacheMissError,
+  DEFAULT_TTL_MS,
+  FileCacheStore,
+  MemoryCacheStore,
+  type CacheOptions,
+} from "../response-cache.ts";
+import type { Transport, TransportRequest } from "../transport.ts";
+
+/**
+ * Answers every URL with "<url> #<n>", n counting its requests, after `delayMs`.
+ */
+function stubTransport(delayMs = 0) {
+  const requests: TransportRequest[] = [];
+  const transport: Transport = {
+    live: false,
+    async request(req) {
+      requests.push(req);
+      const n = requests.filter((r) => r.url === req.url).length;
+      if (delayMs > 0) await Bun.sleep(delayMs);
+      if (req.signal?.aborted) throw req.signal.reason;
+      return { statusCode: 200, headers: {}, body: `${req.url} #${n}` };
+    },
+  };
+  return { transport, requests };
+}
+
+function fetchWith(
+  transport: Transport,
+  cache: CacheOptions | undefined,
+  url: string,
+  extra = {}
+) {
+  return fetchText(
+    url,
+    { transport, cache, delayBetweenRequestsMs: 0, retry: false, ...extra },
+    "game"
+  );
+}
+
+describe("cachedFetch", () => {
+  test("caches responses for their resource kind's TTL", async () => {
+    const { transport, requests } = stubTransport();
+    const store = new MemoryCacheStore();
+    const url = "https://www.metacritic.com/game/pc/ttl/";
+
+    expect(await fetchWith(transport, { store }, url)).toBe(`${url} #1`);
+    expect(await fetchWith(transport, { store }, url)).toBe(`${url} #1`);
+    expect(requests).toHaveLength(1);
+
+    const entry = (await store.get(url))!;
+    expect(entry.expiresAt - entry.storedAt).toBe(DEFAULT_TTL_MS.game);
+  });
+
+  test("refetches once the per-kind TTL override has passed", async () => {
+    const { transport, requests } = stubTransport();
+    const cache: CacheOptions = {
+      store: new MemoryCacheStore(),
+      ttlMs: { game: 0 },
+    };
+    const url = "https://www.metacritic.com/game/pc/ttl-override/";
+
+    await fetchWith(transport, cache, url);
+    expect(await fetchWith(transport, cache, url)).toBe(`${url} #2`);
+    expect(requests).toHaveLength(2);
+  });
+
+  test("serves stale entries while refreshing them in the background", async () => {
+    const { transport, requests } = stubTransport();
+    const store = new MemoryCacheStore();
+    const url = "https://www.metacritic.com/game/pc/stale/";
+    await store.set(url, { value: "stale", storedAt: 0, expiresAt: 1 });
+
+    const cache = { store, staleWhileRevalidate: true };
+    expect(await fetchWith(transport, cache, url)).toBe("stale");
+    await Bun.sleep(10);
+    expect(requests).toHaveLength(1);
+    expect((await store.get(url))!.value).toBe(`${url} #1`);
+  });
+
+  test("offline mode answers from any entry and fails on a miss", async () => {
+    const { transport, requests } = stubTransport();
+    const store = new MemoryCacheStore();
+    const url = "https://www.metacritic.com/game/pc/offline/";
+    await store.set(url, { value: "expired", storedAt: 0, expiresAt: 1 });
+
+    const cache = { store, offline: true };
+    expect(await fetchWith(transport, cache, url)).toBe("expired");
+    await expect(
+      fetchWith(transport, cache, `${url}missing/`)
+    ).rejects.toBeInstanceOf(CacheMissError);
+    expect(requests).toHaveLength(0);
+  });
+
+  test("FileCacheStore entries survive a new store on the same directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "metacritic-cache-"));
+    const { transport, requests } = stubTransport();
+    const url = "https://www.metacritic.com/game/pc/on-disk/";
+
+    await fetchWith(transport, { store: new FileCacheStore(dir) }, url);
+    const reopened = new FileCacheStore(dir);
+    expect(await fetchWith(transport, { store: reopened }, url)).toBe(
+      `${url} #1`
+    );
+    expect(requests).toHaveLength(1);
+
+    await reopened.delete(url);
+    expect(await reopened.get(url)).toBeUndefined();
+  });
+
+  test("collapses identical concurrent requests into one", async () => {
+    const { transport, requests } = stubTransport(50);
+    const url = "https://www.metacritic.com/game/pc/single-flight/";
+
+    const bodies = await Promise.all([
+      fetchWith(transport, undefined, url),
+      fetchWith(transport, undefined, url),
+      fetchWith(transport, { store: new MemoryCacheStore() }, url),
+    ]);
+    expect(bodies).toEqual([`${url} #1`, `${url} #1`, `${url} #1`]);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("a waiter that aborts leaves the shared request to the others", async () => {
+    const { transport, requests } = stubTransport(100);
+    const url = "https://www.metacritic.com/game/pc/single-flight-abort/";
+    const controller = new AbortController();
+
+    const aborted = fetchWith(transport, undefined, url, {
+      signal: controller.signal,
+    });
+    const other = fetchWith(transport, undefined, url);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(aborted).rejects.toBeInstanceOf(AbortedError);
+    expect(await other).toBe(`${url} #1`);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.signal?.aborted).toBe(false);
+  });
+
+  test("the shared request is cancelled once every waiter aborts", async () => {
+    const { transport, requests } = stubTransport(100);
+    const url = "https://www.metacritic.com/game/pc/single-flight-cancel/";
+    const controller = new AbortController();
+    const signal = controller.signal;
+
+    const calls = Promise.allSettled([
+      fetchWith(transport, undefined, url, { signal }),
+      fetchWith(transport, undefined, url, { signal }),
+    ]);
+    setTimeout(() => controller.abort(), 20);
+
+    expect((await calls).map((r) => r.status)).toEqual([
+      "rejected",
+      "rejected",
+    ]);
+    expect(requests[0]!.signal?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import type { Review, SearchResult } from "../metacritic-game-scraper.ts";
+import { createHandler } from "../server.ts";
+import { ReplayTransport } from "../transport.ts";
+
+const handle = createHandler({
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false,
+});
+
+function get(path: string): Promise<Response> {
+  return handle(new Request(`http://localhost${path}`));
+}
+
+describe("server", () => {
+  test("GET /health reports status", async () => {
+    const res = await get("/health");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: "ok" });
+  });
+
+  test("GET /search returns ranked candidates", async () => {
+    const res = await get("/search?q=Doom");
+    expect(res.status).toBe(200);
+    const results = (await res.json()) as SearchResult[];
+    expect(results[0]).toMatchObject({ slug: "doom", matchScore: 1 });
+  });
+
+  test("GET /search without q is a bad request", async () => {
+    expect((await get("/search")).status).toBe(400);
+  });
+
+  test("GET /games/:slug scrapes the platform page", async () => {
+    const res = await get("/games/doom?platform=pc");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ name: "DOOM", metascore: 85 });
+  });
+
+  test("GET /games/:slug accepts any known platform name", async () => {
+    const res = await get("/games/doom?platform=PC");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      url: "https://www.metacritic.com/game/pc/doom/",
+    });
+  });
+
+  test("an unknown platform is a bad request", async () => {
+    for (const path of ["/games/doom", "/games/doom/reviews"]) {
+      const res = await get(`${path}?platform=dreamcast-2`);
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({
+        error: "Invalid platform: dreamcast-2",
+      });
+    }
+  });
+
+  test("GET /games/:slug/reviews applies the query filters", async () => {
+    const res = await get("/games/doom/reviews?type=critic&minScore=80");
+    expect(res.status).toBe(200);
+    const reviews = (await res.json()) as Review[];
+    expect(reviews).toHaveLength(8);
+    expect(reviews.every((r) => r.type === "critic" && r.score! >= 80)).toBe(
+      true
+    );
+
+    const user = (await (
+      await get("/games/doom/reviews?type=user&sentiment=negative")
+    ).json()) as Review[];
+    expect(user.map((r) => r.score)).toEqual([3]);
+  });
+
+  test.each([
+    ["/games/doom/reviews?type=press", "type: press"],
+    ["/games/doom/reviews?sentiment=positive,foo", "sentiment: foo"],
+    ["/games/doom/reviews?minScore=high", "minScore: high"],
+    ["/games/doom/reviews?maxPages=all", "maxPages: all"],
+    ["/games/doom/reviews?since=last%20week", "since: last week"],
+    ["/games/doom/reviews?until=soon", "until: soon"],
+    ["/search?q=Doom&limit=ten", "limit: ten"],
+  ])("%s is a bad request", async (path, invalid) => {
+    const res = await get(path);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: `Invalid ${invalid}` });
+  });
+
+  test("a disconnected client's lookup makes no requests", async () => {
+    const requests: string[] = [];
+    const handler = createHandler({
+      transport: {
+        live: false,
+        async request({ url }) {
+          requests.push(url);
+          return { statusCode: 200, headers: {}, body: "" };
+        },
+      },
+      delayBetweenRequestsMs: 0,
+      retry: false,
+    });
+    const controller = new AbortController();
+    controller.abort();
+    await handler(
+      new Request("http://localhost/games/doom?platform=pc", {
+        signal: controller.signal,
+      })
+    );
+    expect(requests).toEqual([]);
+  });
+
+  test("upstream 404 maps to 404", async () => {
+    const res = await get("/games/no-such-game?platform=pc");
+    expect(res.status).toBe(404);
+  });
+
+  test("upstream failures map to 502", async () => {
+    // No fixture recorded for this URL, so the transport itself fails
+    const res = await get("/games/unrecorded?platform=pc");
+    expect(res.status).toBe(502);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { GameRatings } from "../metacritic-game-scraper.ts";
+import {
+  diffSnapshots,
+  FileSnapshotStore,
+  MemorySnapshotStore,
+  recordSnapshot,
+  snapshotKey,
+  type Snapshot,
+} from "../snapshots.ts";
+
+const DOOM: GameRatings = {
+  name: "DOOM",
+  platforms: ["pc"],
+  slug: "doom",
+  url: "https://www.metacritic.com/game/pc/doom/",
+  metascore: 85,
+  userscore: 7.9,
+  criticReviewsCount: 70,
+  userRatingsCount: 4000,
+};
+
+function snapshot(takenAt: string, game: Partial<GameRatings>): Snapshot {
+  return { key: "pc/doom", takenAt, game: { ...DOOM, ...game } };
+}
+
+describe("snapshotKey", () => {
+  test("uses the path after /game/", () => {
+    expect(snapshotKey("https://www.metacritic.com/game/pc/doom/")).toBe(
+      "pc/doom"
+    );
+    expect(snapshotKey("https://www.metacritic.com/game/doom/?x=1")).toBe(
+      "doom"
+    );
+    expect(snapshotKey("pc/doom")).toBe("pc/doom");
+  });
+});
+
+describe("FileSnapshotStore", () => {
+  test("appends snapshots and queries history by range", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "snapshots-"));
+    try {
+      const store = new FileSnapshotStore(dir);
+      await recordSnapshot(store, DOOM, new Date("2025-01-02T00:00:00Z"));
+      await recordSnapshot(
+        store,
+        { ...DOOM, metascore: 86 },
+        new Date("2025-01-01T00:00:00Z")
+      );
+      await recordSnapshot(store, DOOM, new Date("2025-01-03T00:00:00Z"));
+
+      // Reopened from disk, oldest first
+      const reopened = new FileSnapshotStore(dir);
+      expect(await reopened.keys()).toEqual(["pc/doom"]);
+      const all = await reopened.history("pc/doom");
+      expect(all.map((s) => s.takenAt)).toEqual([
+        "2025-01-01T00:00:00.000Z",
+        "2025-01-02T00:00:00.000Z",
+        "2025-01-03T00:00:00.000Z",
+      ]);
+      expect(all[0]?.game.metascore).toBe(86);
+
+      const ranged = await reopened.history("pc/doom", {
+        since: new Date("2025-01-02T00:00:00Z"),
+        limit: 1,
+      });
+      expect(ranged.map((s) => s.takenAt)).toEqual([
+        "2025-01-03T00:00:00.000Z",
+      ]);
+      expect(await reopened.history("pc/quake")).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("diffSnapshots", () => {
+  test("reports score and review-count changes", () => {
+    const diff = diffSnapshots(
+      snapshot("2025-01-01T00:00:00.000Z", {}),
+      snapshot("2025-01-02T00:00:00.000Z", {
+        userscore: 8.1,
+        userRatingsCount: 4312,
+        criticReviewsCount: undefined,
+      })
+    );
+    expect(diff).toEqual({
+      key: "pc/doom",
+      name: "DOOM",
+      url: DOOM.url,
+      from: "2025-01-01T00:00:00.000Z",
+      to: "2025-01-02T00:00:00.000Z",
+      changes: [
+        {
+          field: "userscore",
+          platform: undefined,
+          before: 7.9,
+          after: 8.1,
+          delta: 0.2,
+        },
+        {
+          field: "criticReviewsCount",
+          platform: undefined,
+          before: 70,
+          after: undefined,
+          delta: undefined,
+        },
+        {
+          field: "userRatingsCount",
+          platform: undefined,
+          before: 4000,
+          after: 4312,
+          delta: 312,
+        },
+      ],
+    });
+  });
+
+  test("includes per-platform changes", async () => {
+    const store = new MemorySnapshotStore();
+    const platformScores = (metascore: number) => ({
+      "playstation-4": {
+        platform: "playstation-4" as const,
+        url: "https://www.metacritic.com/game/playstation-4/doom/",
+        metascore,
+      },
+    });
+    await store.append(
+      snapshot("2025-01-01T00:00:00.000Z", {
+        platformScores: platformScores(84),
+      })
+    );
+    await store.append(
+      snapshot("2025-01-02T00:00:00.000Z", {
+        platformScores: platformScores(85),
+      })
+    );
+    const [before, after] = await store.history("pc/doom");
+    expect(diffSnapshots(before!, after!).changes).toEqual([
+      {
+        field: "metascore",
+        platform: "playstation-4",
+        before: 84,
+        after: 85,
+        delta: 1,
+      },
+    ]);
+  });
+});
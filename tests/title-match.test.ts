@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import {
+  normalizeTitle,
+  stripEditionSuffixes,
+  titleSimilarity,
+} from "../title-match.ts";
+
+describe("normalizeTitle", () => {
+  test("drops trademarks and punctuation and converts roman numerals", () => {
+    expect(normalizeTitle("DOOM™")).toBe("doom");
+    expect(normalizeTitle("Final Fantasy VII")).toBe("final fantasy 7");
+    expect(normalizeTitle("Final Fantasy XIII-2")).toBe("final fantasy 13 2");
+    expect(normalizeTitle("Grand Theft Auto V")).toBe("grand theft auto v");
+    expect(normalizeTitle("I Am Setsuna")).toBe("i am setsuna");
+  });
+});
+
+describe("stripEditionSuffixes", () => {
+  test.each([
+    [
+      "The Witcher 3: Wild Hunt - Game of the Year Edition",
+      "The Witcher 3: Wild Hunt",
+    ],
+    ["Skyrim Special Edition", "Skyrim"],
+    ["Dark Souls: Remastered", "Dark Souls"],
+    ["Death Stranding Director's Cut", "Death Stranding"],
+    [
+      "Divinity: Original Sin 2 (Definitive Edition)",
+      "Divinity: Original Sin 2",
+    ],
+    ["Mass Effect™ Legendary Edition", "Mass Effect"],
+    ["Edition", "Edition"],
+    ["Just Dance 2024 Edition", "Just Dance 2024 Edition"],
+  ])("%s", (title, expected) => {
+    expect(stripEditionSuffixes(title)).toBe(expected);
+  });
+});
+
+describe("titleSimilarity", () => {
+  test("ranks exact over edition variants over other titles", () => {
+    expect(titleSimilarity("Final Fantasy VII", "Final Fantasy 7")).toBe(1);
+    expect(titleSimilarity("Skyrim", "Skyrim Special Edition")).toBe(0.95);
+    expect(titleSimilarity("Doom", "Doom Eternal")).toBeLessThan(0.95);
+  });
+
+  test.each([
+    ["Mega Man X", "Mega Man 10"],
+    ["Batman v Superman", "Batman 5 Superman"],
+    ["Just Dance 2024 Edition", "Just Dance"],
+  ])("doesn't treat %p and %p as the same title", (a, b) => {
+    expect(titleSimilarity(a, b)).toBeLessThan(0.95);
+  });
+});
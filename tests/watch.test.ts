@@ -0,0 +1,178 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import type { BatchEntry } from "../batch.ts";
+import { AbortedError } from "../errors.ts";
+import { MemorySnapshotStore, type SnapshotDiff } from "../snapshots.ts";
+import { ReplayTransport } from "../transport.ts";
+import { watch, watchOnce, webhookNotifier } from "../watch.ts";
+
+const scrape = {
+  transport: new ReplayTransport(join(import.meta.dir, "fixtures")),
+  delayBetweenRequestsMs: 0,
+  retry: false as const,
+};
+
+const ENTRIES: BatchEntry[] = [
+  { line: 1, title: "https://www.metacritic.com/game/pc/doom/" },
+];
+
+// Stand-in webhook receiver; answers with the status queued in `nextStatus`
+const received: SnapshotDiff[] = [];
+let nextStatus = 200;
+let receiver: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  receiver = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      received.push((await req.json()) as SnapshotDiff);
+      return new Response(null, { status: nextStatus });
+    },
+  });
+});
+
+afterAll(() => receiver.stop(true));
+
+async function seededStore(metascore: number, pcMetascore = 85) {
+  const scores = {
+    userscore: 8.1,
+    criticReviewsCount: 74,
+    userRatingsCount: 0,
+  };
+  const url = "https://www.metacritic.com/game/pc/doom/";
+  const store = new MemorySnapshotStore();
+  await store.append({
+    key: "pc/doom",
+    takenAt: "2025-01-01T00:00:00.000Z",
+    game: {
+      name: "DOOM",
+      platforms: ["pc"],
+      slug: "doom",
+      url,
+      metascore,
+      ...scores,
+      platformScores: {
+        pc: { platform: "pc", url, metascore: pcMetascore, ...scores },
+      },
+    },
+  });
+  return store;
+}
+
+describe("watchOnce", () => {
+  test("records a baseline the first time, then reports no change", async () => {
+    const store = new MemorySnapshotStore();
+    const notified: SnapshotDiff[] = [];
+    const opts = {
+      store,
+      scrape,
+      notify: (d: SnapshotDiff) => void notified.push(d),
+    };
+
+    expect((await watchOnce(ENTRIES, opts)).map((r) => r.status)).toEqual([
+      "baseline",
+    ]);
+    expect((await watchOnce(ENTRIES, opts)).map((r) => r.status)).toEqual([
+      "unchanged",
+    ]);
+    expect(notified).toEqual([]);
+    expect(await store.history("pc/doom")).toHaveLength(2);
+  });
+
+  test("posts changes to the webhook", async () => {
+    received.length = 0;
+    nextStatus = 204;
+    const store = await seededStore(80);
+    const [result] = await watchOnce(ENTRIES, {
+      store,
+      scrape,
+      notify: webhookNotifier(`http://localhost:${receiver.port}/hook`),
+    });
+
+    expect(result?.status).toBe("changed");
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      key: "pc/doom",
+      from: "2025-01-01T00:00:00.000Z",
+      changes: [{ field: "metascore", before: 80, after: 85, delta: 5 }],
+    });
+  });
+
+  test("reports a change on one platform when the overall score holds", async () => {
+    const store = await seededStore(85, 80);
+    const notified: SnapshotDiff[] = [];
+    const [result] = await watchOnce(ENTRIES, {
+      store,
+      scrape,
+      notify: (d) => void notified.push(d),
+    });
+
+    expect(result?.status).toBe("changed");
+    expect(notified[0]?.changes).toEqual([
+      { field: "metascore", platform: "pc", before: 80, after: 85, delta: 5 },
+    ]);
+  });
+
+  test("stops on abort instead of recording an error", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const store = new MemorySnapshotStore();
+    await expect(
+      watchOnce(ENTRIES, {
+        store,
+        scrape: { ...scrape, signal: controller.signal },
+        notify: () => {},
+      })
+    ).rejects.toBeInstanceOf(AbortedError);
+    expect(await store.history("pc/doom")).toEqual([]);
+  });
+
+  test("keeps the change pending when the webhook fails", async () => {
+    nextStatus = 500;
+    const store = await seededStore(80);
+    const [result] = await watchOnce(ENTRIES, {
+      store,
+      scrape,
+      notify: webhookNotifier(`http://localhost:${receiver.port}/hook`),
+    });
+
+    expect(result).toMatchObject({
+      status: "error",
+      error: expect.stringContaining("HTTP 500"),
+    });
+    // Not stored, so the next poll reports the same change again
+    expect(await store.history("pc/doom")).toHaveLength(1);
+  });
+});
+
+describe("watch", () => {
+  test("polls until the iteration limit", async () => {
+    const polls: string[][] = [];
+    await watch(ENTRIES, {
+      store: new MemorySnapshotStore(),
+      scrape,
+      notify: () => {},
+      intervalMs: 0,
+      iterations: 3,
+      onPoll: (results) => polls.push(results.map((r) => r.status)),
+    });
+    expect(polls).toEqual([["baseline"], ["unchanged"], ["unchanged"]]);
+  });
+
+  test("stops when aborted", async () => {
+    const controller = new AbortController();
+    let polls = 0;
+    await watch(ENTRIES, {
+      store: new MemorySnapshotStore(),
+      scrape,
+      notify: () => {},
+      intervalMs: 60_000,
+      signal: controller.signal,
+      onPoll: () => {
+        polls++;
+        controller.abort();
+      },
+    });
+    expect(polls).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+// filename: title-match.ts
+// Description: Title normalization and similarity scoring used to rank search candidates.
+
+// Standalone roman numerals as they appear in sequel titles. Single letters are left
+// alone: "I" is usually a word, and V and X are as often names ("Mega Man X") or
+// "versus" ("Batman v Superman") as numbers
+const ROMAN_NUMERALS: Record<string, string> = {
+  ii: "2",
+  iii: "3",
+  iv: "4",
+  vi: "6",
+  vii: "7",
+  viii: "8",
+  ix: "9",
+  xi: "11",
+  xii: "12",
+  xiii: "13",
+  xiv: "14",
+  xv: "15",
+  xvi: "16",
+};
+
+// Edition and re-release suffixes, e.g. "GOTY Edition", "- Definitive Edition", "Remastered", "(Director's Cut)".
+// Only known edition names, so a title like "Just Dance 2024 Edition" keeps its year
+const EDITION_SUFFIX =
+  /[\s:,\-\u2013\u2014]*[([]?\b(?:(?:game of the year|goty|deluxe|digital deluxe|gold|definitive|ultimate|special|complete|legendary|enhanced|premium|standard|collector['\u2019]?s|anniversary|director['\u2019]?s) edition|remastered|remaster|director['\u2019]?s cut|hd)[)\]]?\s*$/i;
+
+/**
+ * Remove ™, ® and similar marks, which NFKD would otherwise turn into letters.
+ */
+export function stripTrademarks(title: string): string {
+  return title.replace(/[\u2122\u00ae\u00a9\u2120]/g, "");
+}
+
+/**
+ * Drop trailing edition/re-release suffixes: "Skyrim Special Edition" -> "Skyrim".
+ */
+export function stripEditionSuffixes(title: string): string {
+  let stripped = stripTrademarks(title).trim();
+  // Suffixes stack, e.g. "Remastered - GOTY Edition"
+  for (let i = 0; i < 3; i++) {
+    const next = stripped.replace(EDITION_SUFFIX, "").trim();
+    if (next === stripped || !next) break;
+    stripped = next;
+  }
+  return stripped;
+}
+
+/**
+ * Lowercase, strip accents/punctuation/trademarks, turn roman numerals into digits
+ * and collapse whitespace so titles compare cleanly.
+ */
+export function normalizeTitle(title: string): string {
+  return stripTrademarks(title)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .map((word) => ROMAN_NUMERALS[word] ?? word)
+    .join(" ");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = text.replace(/\s+/g, " ");
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (0–1).
+ */
+function diceCoefficient(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  let overlap = 0;
+  for (const [gram, count] of aGrams) {
+    overlap += Math.min(count, bGrams.get(gram) ?? 0);
+  }
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
+
+/**
+ * Score how well a candidate title matches a query (0–1).
+ * Exact matches score 1 and titles equal apart from an edition suffix 0.95; otherwise
+ * bigram similarity blended with word overlap, so "Doom" prefers "DOOM" over
+ * "Doom Eternal" and both over "Doomsday Paradise".
+ */
+export function titleSimilarity(query: string, candidate: string): number {
+  if (!normalizeTitle(query) || !normalizeTitle(candidate)) return 0;
+  if (normalizeTitle(query) === normalizeTitle(candidate)) return 1;
+
+  const q = normalizeTitle(stripEditionSuffixes(query));
+  const c = normalizeTitle(stripEditionSuffixes(candidate));
+  if (!q || !c) return 0;
+  if (q === c) return 0.95;
+
+  const qWords = q.split(" ");
+  const cWords = new Set(c.split(" "));
+  const sharedWords = qWords.filter((w) => cWords.has(w)).length;
+  // Penalize extra words on either side equally
+  const wordScore = sharedWords / Math.max(qWords.length, cWords.size);
+
+  const score = 0.6 * diceCoefficient(q, c) + 0.4 * wordScore;
+  // Never let a non-exact match tie with an exact one
+  return Math.min(0.99, Math.round(score * 1000) / 1000);
+}
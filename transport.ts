@@ -0,0 +1,165 @@
+// filename: transport.ts
+// Description: Pluggable HTTP transport so parsers can run against live Metacritic or saved fixtures.
+// Notes:
+// - undiciTransport is the default and the only one that touches the network.
+// - RecordingTransport wraps another transport and saves every response as a fixture; it is as live as what it wraps.
+// - ReplayTransport serves those fixtures back, with no network access at all (`live: false`).
+
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { request } from "undici";
+
+export interface TransportRequest {
+  url: string;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  signal?: AbortSignal; // Transports that can cancel in-flight requests should honor it
+}
+
+export interface TransportResponse {
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+export interface Transport {
+  request(req: TransportRequest): Promise<TransportResponse>;
+  live?: boolean; // default true - false when requests never reach the site (replays, stubs), which skips robots.txt
+}
+
+export const undiciTransport: Transport = {
+  async request({ url, headers, timeoutMs, signal }) {
+    const res = await request(url, {
+      headers,
+      bodyTimeout: timeoutMs,
+      headersTimeout: timeoutMs,
+      signal,
+    });
+    const buf = await res.body.arrayBuffer();
+    return {
+      statusCode: res.statusCode,
+      headers: res.headers,
+      body: Buffer.from(buf).toString("utf-8"),
+    };
+  },
+};
+
+// On disk a fixture is `<name>.json` (this metadata) next to `<name>.body.<ext>`,
+// so recorded HTML/JSON stays readable and diffable
+interface FixtureMeta {
+  url: string;
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  bodyFile: string;
+}
+
+/**
+ * Readable, collision-safe file name for a URL, e.g. `www.metacritic.com-game-pc-doom-1a2b3c4d`.
+ */
+export function fixtureName(url: string): string {
+  const hash = createHash("sha1").update(url).digest("hex").slice(0, 8);
+  const readable = url
+    .replace(/^https?:\/\//, "")
+    .replace(/[^a-zA-Z0-9.]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${readable}-${hash}`;
+}
+
+function bodyExtension(headers: FixtureMeta["headers"]): string {
+  const contentType = String(headers["content-type"] ?? "");
+  if (contentType.includes("json")) return "json";
+  if (contentType.includes("html")) return "html";
+  return "txt";
+}
+
+/**
+ * Save one response under `dir` in the format ReplayTransport reads.
+ */
+export async function writeFixture(
+  dir: string,
+  url: string,
+  res: TransportResponse
+): Promise<void> {
+  const name = fixtureName(url);
+  const bodyFile = `${name}.body.${bodyExtension(res.headers)}`;
+  const meta: FixtureMeta = {
+    url,
+    statusCode: res.statusCode,
+    headers: res.headers,
+    bodyFile,
+  };
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, bodyFile), res.body);
+  await writeFile(
+    join(dir, `${name}.json`),
+    JSON.stringify(meta, null, 2) + "\n"
+  );
+}
+
+/**
+ * Pass requests through to `inner` and save each response under `dir`.
+ */
+export class RecordingTransport implements Transport {
+  readonly live: boolean;
+
+  constructor(
+    private readonly dir: string,
+    private readonly inner: Transport = undiciTransport
+  ) {
+    this.live = inner.live !== false;
+  }
+
+  async request(req: TransportRequest): Promise<TransportResponse> {
+    const res = await this.inner.request(req);
+    await writeFixture(this.dir, req.url, res);
+    return res;
+  }
+}
+
+/**
+ * Thrown by ReplayTransport when no fixture was recorded for a URL.
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly url: string, dir: string) {
+    super(`No fixture recorded for ${url} in ${dir}`);
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+/**
+ * Serve responses saved by RecordingTransport. Fixtures are matched on the `url`
+ * stored in their metadata, so hand-written fixtures can use any file name.
+ */
+export class ReplayTransport implements Transport {
+  readonly live = false;
+  private index?: Promise<Map<string, FixtureMeta>>;
+
+  constructor(private readonly dir: string) {}
+
+  private loadIndex(): Promise<Map<string, FixtureMeta>> {
+    this.index ??= (async () => {
+      const index = new Map<string, FixtureMeta>();
+      for (const file of await readdir(this.dir)) {
+        if (extname(file) !== ".json" || file.includes(".body.")) continue;
+        const meta = JSON.parse(
+          await readFile(join(this.dir, file), "utf-8")
+        ) as FixtureMeta;
+        if (meta.url) index.set(meta.url, meta);
+      }
+      return index;
+    })();
+    return this.index;
+  }
+
+  async request(req: TransportRequest): Promise<TransportResponse> {
+    const meta = (await this.loadIndex()).get(req.url);
+    if (!meta) throw new FixtureNotFoundError(req.url, this.dir);
+    return {
+      statusCode: meta.statusCode,
+      headers: meta.headers,
+      body: await readFile(join(this.dir, meta.bodyFile), "utf-8"),
+    };
+  }
+}
@@ -0,0 +1,187 @@
+// filename: watch.ts
+// Description: Poll a watchlist on a schedule, snapshot every game and report score changes.
+// Usage:
+//   bun metacritic-game-scraper.ts watch watchlist.txt --interval=6h --webhook=https://example.com/hook
+//   bun metacritic-game-scraper.ts watch watchlist.txt --once
+// Input: the batch format (title, title<TAB>platform, or JSON lines) or game URLs, one per line.
+// Notes:
+// - The first run for a game only records a baseline; later runs notify when tracked fields change.
+// - Every platform page of a game is fetched each poll, so per-platform changes are reported.
+
+import { setTimeout as sleep } from "node:timers/promises";
+import { request } from "undici";
+import type { BatchEntry } from "./batch.ts";
+import { AbortedError } from "./errors.ts";
+import {
+  getGameDetails,
+  scrapePlatformScores,
+  searchGamesByName,
+  type ScrapeOptions,
+} from "./metacritic-game-scraper.ts";
+import { buildGameUrl, normalizePlatform } from "./platforms.ts";
+import {
+  diffSnapshots,
+  snapshotKey,
+  type Snapshot,
+  type SnapshotDiff,
+  type SnapshotStore,
+} from "./snapshots.ts";
+
+export type Notifier = (diff: SnapshotDiff) => void | Promise<void>;
+
+export interface WatchOptions {
+  store: SnapshotStore;
+  notify: Notifier;
+  scrape?: ScrapeOptions;
+  intervalMs?: number; // default 1h - between the start of one poll and the next
+  iterations?: number; // default unlimited
+  signal?: AbortSignal; // Stops the loop between (or during the wait for) polls
+  onPoll?: (results: WatchResult[]) => void;
+}
+
+export type WatchStatus = "baseline" | "unchanged" | "changed" | "error";
+
+export interface WatchResult {
+  entry: BatchEntry;
+  key?: string;
+  status: WatchStatus;
+  diff?: SnapshotDiff;
+  error?: string;
+}
+
+/**
+ * Resolve a watchlist entry to a game page URL: game URLs are used as-is,
+ * titles go through search (and the entry's platform, when set).
+ */
+async function resolveGameUrl(
+  entry: BatchEntry,
+  opts: ScrapeOptions
+): Promise<string | undefined> {
+  if (/^https?:\/\/www\.metacritic\.com\/game\//.test(entry.title)) {
+    return entry.title;
+  }
+  const [best] = await searchGamesByName(entry.title, {
+    ...opts,
+    maxCandidates: 1,
+  });
+  if (!best) return undefined;
+  const platform = normalizePlatform(entry.platform);
+  return platform ? buildGameUrl(best.slug, platform) : best.url;
+}
+
+/**
+ * Snapshot every entry once, notifying about those whose scores changed since their last snapshot.
+ */
+export async function watchOnce(
+  entries: BatchEntry[],
+  options: WatchOptions
+): Promise<WatchResult[]> {
+  const scrape = options.scrape ?? {};
+  const results: WatchResult[] = [];
+
+  // One at a time: the scheduler would serialize the requests anyway
+  for (const entry of entries) {
+    try {
+      const url = await resolveGameUrl(entry, scrape);
+      if (!url) {
+        results.push({ entry, status: "error", error: "No search results" });
+        continue;
+      }
+      const key = snapshotKey(url);
+      const [previous] = await options.store.history(key, { limit: 1 });
+      const game = await getGameDetails(url, scrape);
+      // Per-platform scores, so a change on one platform is reported too
+      if (game.platforms.length > 0) {
+        game.platformScores = await scrapePlatformScores(
+          game.slug,
+          game.platforms,
+          scrape
+        );
+      }
+      const current: Snapshot = {
+        key,
+        takenAt: new Date().toISOString(),
+        game,
+      };
+
+      const diff = previous ? diffSnapshots(previous, current) : undefined;
+      // Stored only after a successful notification, so a failed webhook
+      // reports the same change again on the next poll
+      if (diff && diff.changes.length > 0) await options.notify(diff);
+      await options.store.append(current);
+
+      results.push(
+        !diff
+          ? { entry, key, status: "baseline" }
+          : diff.changes.length === 0
+          ? { entry, key, status: "unchanged" }
+          : { entry, key, status: "changed", diff }
+      );
+    } catch (err) {
+      if (err instanceof AbortedError) throw err;
+      results.push({
+        entry,
+        status: "error",
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Run watchOnce every `intervalMs` until `iterations` polls have run or `signal` aborts.
+ */
+export async function watch(
+  entries: BatchEntry[],
+  options: WatchOptions
+): Promise<void> {
+  const intervalMs = options.intervalMs ?? 60 * 60 * 1000;
+  const iterations = options.iterations ?? Infinity;
+
+  for (let i = 0; i < iterations && !options.signal?.aborted; i++) {
+    const startedAt = Date.now();
+    options.onPoll?.(await watchOnce(entries, options));
+    if (i + 1 >= iterations) break;
+    try {
+      await sleep(
+        Math.max(0, intervalMs - (Date.now() - startedAt)),
+        undefined,
+        {
+          signal: options.signal,
+        }
+      );
+    } catch {
+      return; // Aborted while waiting
+    }
+  }
+}
+
+/**
+ * Writes each diff as one NDJSON line.
+ */
+export function stdoutNotifier(
+  write: (chunk: string) => void = (chunk) => void process.stdout.write(chunk)
+): Notifier {
+  return (diff) => write(JSON.stringify(diff) + "\n");
+}
+
+/**
+ * POSTs each diff as JSON to `url`; non-2xx responses throw.
+ */
+export function webhookNotifier(url: string, timeoutMs = 10000): Notifier {
+  return async (diff) => {
+    const res = await request(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(diff),
+      bodyTimeout: timeoutMs,
+      headersTimeout: timeoutMs,
+    });
+    // Drain the body so the connection can be reused
+    await res.body.arrayBuffer();
+    if (res.statusCode >= 300) {
+      throw new Error(`Webhook responded HTTP ${res.statusCode} for ${url}`);
+    }
+  };
+}